@@ -0,0 +1,78 @@
+// Regenerates src/data/osmTagVocabulary.json from the hand-maintained concepts in
+// scripts/tag-concepts.json and, optionally, taginfo dumps of the tags in actual use.
+//
+//   npm run vocabulary -- [popular.json] [key=values.json ...]
+//
+// A bare path is a dump of /api/4/tags/popular (entries carry key and value); `key=path` is a dump
+// of /api/4/key/values?key=<key>. Values used fewer than MIN_COUNT times (default 100) are dropped,
+// and so are concept tags the dumps do not know. Without dumps only the concepts' own tags are known.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const VERSION = 1;
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const minCount = Number(process.env.MIN_COUNT || 100);
+
+function readJson(path) {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function entryCount(entry) {
+  return entry.count ?? entry.count_all ?? 0;
+}
+
+// key -> value -> count, from every dump named on the command line
+function readDumps(args) {
+  const counts = new Map();
+  for (const arg of args) {
+    const [key, path] = arg.includes('=') ? arg.split(/=(.*)/s) : [null, arg];
+    const { data } = readJson(path);
+    if (!Array.isArray(data)) throw new Error(`${path} is not a taginfo response`);
+    for (const entry of data) {
+      const entryKey = key ?? entry.key;
+      if (!entryKey || typeof entry.value !== 'string' || entryCount(entry) < minCount) continue;
+      if (!counts.has(entryKey)) counts.set(entryKey, new Map());
+      counts.get(entryKey).set(entry.value, entryCount(entry));
+    }
+  }
+  return counts;
+}
+
+function main() {
+  const dumps = process.argv.slice(2);
+  const counts = readDumps(dumps);
+  const concepts = readJson(join(root, 'scripts/tag-concepts.json'));
+
+  const known = (tag) => counts.size === 0 || !counts.has(tag.key) || counts.get(tag.key).has(tag.value);
+  const vocabularyConcepts = concepts
+    .map(concept => {
+      const missing = concept.tags.filter(tag => !known(tag));
+      missing.forEach(tag => console.warn(`${concept.id}: ${tag.key}=${tag.value} is not in the taginfo dump`));
+      return { ...concept, tags: concept.tags.filter(known), terms: [...new Set(concept.terms.map(term => term.toLowerCase()))] };
+    })
+    .filter(concept => concept.tags.length > 0);
+
+  // Concept tags first, then whatever else the dumps show in use, most used first
+  const values = {};
+  for (const { tags } of vocabularyConcepts) {
+    for (const { key, value } of tags) values[key] = [...new Set([...(values[key] ?? []), value])];
+  }
+  for (const [key, byValue] of counts) {
+    const used = [...byValue.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+    values[key] = [...new Set([...(values[key] ?? []), ...used])];
+  }
+
+  const vocabulary = {
+    version: VERSION,
+    generatedAt: new Date().toISOString().slice(0, 10),
+    taginfo: dumps.length > 0,
+    concepts: vocabularyConcepts,
+    values
+  };
+  const output = join(root, 'src/data/osmTagVocabulary.json');
+  writeFileSync(output, `${JSON.stringify(vocabulary, null, 2)}\n`);
+  console.log(`Wrote ${vocabularyConcepts.length} concepts and ${Object.keys(values).length} keys to ${output}`);
+}
+
+main();
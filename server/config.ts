@@ -0,0 +1,105 @@
+import type { LLMProviderName } from '../src/services/llm';
+
+export type RouteGroup = 'parse' | 'search' | 'route' | 'tiles';
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export interface LlmConfig {
+  provider: LLMProviderName;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface ServerConfig {
+  port: number;
+  // Answer every upstream from fixtures, for running without keys or network
+  mock: boolean;
+  // Take the client address from X-Forwarded-For, when running behind a reverse proxy
+  trustProxy: boolean;
+  limits: Record<RouteGroup, RateLimit[]>;
+  llm: LlmConfig;
+  nominatimUrl: string;
+  nominatimEmail?: string;
+  // Gap between Nominatim requests across all clients; the public server allows one per second
+  nominatimInterval: number;
+  overpassUrl: string;
+  autocompleteUrl: string;
+  elasticsearchUrl: string;
+  routingUrl: string;
+  maptilerKey?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const PUBLIC_NOMINATIM = 'https://nominatim.openstreetmap.org';
+
+// Requests per minute, then per day; 0 switches a limit off
+const DEFAULT_LIMITS: Record<RouteGroup, [number, number]> = {
+  parse: [20, 300],
+  search: [120, 5000],
+  route: [30, 500],
+  tiles: [1200, 0]
+};
+
+function readLimits(env: Env): Record<RouteGroup, RateLimit[]> {
+  const entries = Object.entries(DEFAULT_LIMITS).map(([group, [perMinute, perDay]]) => {
+    const name = group.toUpperCase();
+    const limits = [
+      { limit: Number(env[`RATE_LIMIT_${name}`] ?? perMinute), windowMs: MINUTE },
+      { limit: Number(env[`DAILY_QUOTA_${name}`] ?? perDay), windowMs: DAY }
+    ];
+    return [group, limits.filter(({ limit }) => limit > 0)];
+  });
+  return Object.fromEntries(entries) as Record<RouteGroup, RateLimit[]>;
+}
+
+function readLlm(env: Env, mock: boolean): LlmConfig {
+  const configured = env.LLM_PROVIDER;
+  const provider: LLMProviderName = mock
+    ? 'mock'
+    : configured === 'mistral' || configured === 'openai' || configured === 'local' || configured === 'mock'
+      ? configured
+      : env.MISTRAL_API_KEY ? 'mistral' : env.OPENAI_API_KEY ? 'openai' : 'mock';
+
+  switch (provider) {
+    case 'mistral':
+      return { provider, model: env.LLM_MODEL, apiKey: env.MISTRAL_API_KEY };
+    case 'openai':
+      return { provider, model: env.LLM_MODEL, apiKey: env.OPENAI_API_KEY };
+    case 'local':
+      return {
+        provider,
+        model: env.LLM_MODEL || 'llama3.1',
+        baseUrl: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.LLM_API_KEY || 'local'
+      };
+    default:
+      return { provider };
+  }
+}
+
+export function readConfig(env: Env, args: string[]): ServerConfig {
+  const mock = args.includes('--mock') || env.MOCK_UPSTREAMS === '1';
+  return {
+    port: Number(env.PORT || 8787),
+    mock,
+    trustProxy: env.TRUST_PROXY === '1',
+    limits: readLimits(env),
+    llm: readLlm(env, mock),
+    nominatimUrl: env.NOMINATIM_URL || PUBLIC_NOMINATIM,
+    nominatimEmail: env.NOMINATIM_EMAIL,
+    // A self-hosted server sets its own limits
+    nominatimInterval: env.NOMINATIM_URL ? 0 : 1000,
+    overpassUrl: env.OVERPASS_URL || 'https://overpass-api.de/api/interpreter',
+    autocompleteUrl: env.AUTOCOMPLETE_URL || 'https://photon.komoot.io',
+    elasticsearchUrl: env.ELASTICSEARCH_URL || 'http://localhost:9200',
+    routingUrl: env.ROUTING_URL || 'https://router.project-osrm.org',
+    maptilerKey: env.MAPTILER_KEY
+  };
+}
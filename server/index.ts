@@ -0,0 +1,179 @@
+import { createServer } from 'node:http';
+import { z } from 'zod';
+import { CoordinatesSchema, ParsedQuerySchema } from '../src/services/parsedQuery';
+import { readConfig } from './config';
+import { createServerProvider } from './llm';
+import { createMockUpstreams } from './mockUpstreams';
+import { createRateLimiter } from './rateLimit';
+import { createUpstreams, jsonResponse } from './upstreams';
+import { logRequest, redactCoordinates } from './log';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { RouteGroup } from './config';
+import type { RateLimiter } from './rateLimit';
+import type { Upstream, UpstreamResponse, Upstreams } from './upstreams';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const SWEEP_INTERVAL = 10 * 60 * 1000;
+
+const ParseRequestSchema = z.object({
+  query: z.string().trim().min(1).max(500),
+  userLocation: CoordinatesSchema.optional()
+});
+
+const RefineRequestSchema = z.object({
+  previous: ParsedQuerySchema,
+  followUp: z.string().trim().min(1).max(500)
+});
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const config = readConfig(process.env, process.argv.slice(2));
+const provider = createServerProvider(config.llm);
+const upstreams = config.mock ? createMockUpstreams() : createUpstreams(config);
+const limiters = Object.fromEntries(
+  Object.entries(config.limits).map(([group, limits]) => [group, createRateLimiter(limits)])
+) as Record<RouteGroup, RateLimiter>;
+
+function clientAddress(request: IncomingMessage): string {
+  const forwarded = request.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return request.socket.remoteAddress ?? 'unknown';
+}
+
+// The /api mount as the browser sees it, for links the proxy writes into responses
+function apiBase(request: IncomingMessage): string {
+  const forwardedProto = config.trustProxy ? request.headers['x-forwarded-proto'] : undefined;
+  const protocol = typeof forwardedProto === 'string' ? forwardedProto : 'http';
+  return `${protocol}://${request.headers.host ?? `localhost:${config.port}`}/api`;
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Oversized bodies are still drained, so the error response can be sent on the same socket
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (size > MAX_BODY_BYTES) reject(new HttpError(413, 'Request body too large'));
+      else resolve(Buffer.concat(chunks));
+    });
+    request.on('error', reject);
+  });
+}
+
+async function readJson<T>(request: IncomingMessage, schema: z.ZodType<T>): Promise<T> {
+  if (request.method !== 'POST') throw new HttpError(405, 'Use POST');
+  let body: unknown;
+  try {
+    body = JSON.parse((await readBody(request)).toString());
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Body is not JSON');
+  }
+  const validation = schema.safeParse(body);
+  if (!validation.success) throw new HttpError(400, 'Invalid request body');
+  return validation.data;
+}
+
+function send(response: ServerResponse, { status, contentType, cacheControl, retryAfter, body }: UpstreamResponse) {
+  response.writeHead(status, {
+    'Content-Type': contentType,
+    'Cache-Control': cacheControl ?? 'no-store',
+    ...(retryAfter !== undefined && { 'Retry-After': String(retryAfter) })
+  });
+  response.end(body);
+}
+
+async function proxy(request: IncomingMessage, upstream: Upstream, path: string, query: string): Promise<UpstreamResponse> {
+  if (request.method !== 'GET' && request.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+  const header = request.headers['accept-language'];
+  return upstream({
+    method: request.method,
+    path,
+    query,
+    body: request.method === 'POST' ? await readBody(request) : undefined,
+    contentType: request.headers['content-type'],
+    language: typeof header === 'string' ? header : undefined,
+    apiBase: apiBase(request)
+  });
+}
+
+type Handler = () => Promise<UpstreamResponse>;
+
+// Which limit a path counts against and what answers it; null when nothing does
+function route(request: IncomingMessage, url: URL): { group: RouteGroup; handle: Handler } | null {
+  const { pathname } = url;
+  const query = url.search.slice(1);
+
+  if (pathname === '/api/parse') {
+    return {
+      group: 'parse',
+      handle: async () => {
+        const { query: text, userLocation } = await readJson(request, ParseRequestSchema);
+        return jsonResponse(await provider.parseQuery(text, userLocation));
+      }
+    };
+  }
+  if (pathname === '/api/parse/refine') {
+    return {
+      group: 'parse',
+      handle: async () => {
+        const { previous, followUp } = await readJson(request, RefineRequestSchema);
+        return jsonResponse(await provider.refineQuery(previous, followUp));
+      }
+    };
+  }
+
+  const search = /^\/api\/search\/(nominatim|overpass|autocomplete|elasticsearch)(\/.*)?$/.exec(pathname);
+  if (search) {
+    const upstream = upstreams[search[1] as keyof Upstreams];
+    return { group: 'search', handle: () => proxy(request, upstream, search[2] ?? '', query) };
+  }
+  const routing = /^\/api\/route(\/.*)?$/.exec(pathname);
+  if (routing) return { group: 'route', handle: () => proxy(request, upstreams.routing, routing[1] ?? '', query) };
+  const tiles = /^\/api\/tiles(\/.*)$/.exec(pathname);
+  if (tiles) return { group: 'tiles', handle: () => proxy(request, upstreams.tiles, tiles[1], query) };
+  return null;
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const started = Date.now();
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const client = clientAddress(request);
+  response.on('finish', () => logRequest(client, request.method ?? 'GET', url.pathname + url.search, response.statusCode, started));
+
+  try {
+    if (url.pathname === '/api/health') {
+      send(response, jsonResponse({ ok: true, mock: config.mock, llm: provider.name }));
+      return;
+    }
+    const match = route(request, url);
+    if (!match) throw new HttpError(404, 'Not found');
+
+    const retryAfter = limiters[match.group].take(client);
+    if (retryAfter !== null) {
+      response.setHeader('Retry-After', String(retryAfter));
+      throw new HttpError(429, 'Too many requests');
+    }
+    send(response, await match.handle());
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 502;
+    if (status >= 500) console.error('Upstream error:', redactCoordinates(String(error)));
+    send(response, jsonResponse({ error: error instanceof HttpError ? error.message : 'Upstream request failed' }, status));
+  }
+}
+
+createServer((request, response) => {
+  handle(request, response);
+}).listen(config.port, () => {
+  console.log(`API proxy on http://localhost:${config.port}/api (${config.mock ? 'mock upstreams' : `LLM: ${provider.name}`})`);
+});
+
+setInterval(() => Object.values(limiters).forEach(limiter => limiter.sweep()), SWEEP_INTERVAL).unref();
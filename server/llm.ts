@@ -0,0 +1,19 @@
+import { createMistralProvider } from '../src/services/mistral';
+import { createOpenAIProvider } from '../src/services/openai';
+import { createMockProvider } from '../src/services/mock';
+import type { LLMProvider } from '../src/services/llm';
+import type { LlmConfig } from './config';
+
+export function createServerProvider({ provider, model, baseUrl, apiKey }: LlmConfig): LLMProvider {
+  switch (provider) {
+    case 'mistral':
+      return createMistralProvider({ apiKey, model });
+    case 'openai':
+      return createOpenAIProvider({ apiKey, model });
+    case 'local':
+      // Any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio)
+      return createOpenAIProvider({ name: 'local', apiKey, baseURL: baseUrl, model });
+    default:
+      return createMockProvider();
+  }
+}
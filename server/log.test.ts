@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { clientId, redactCoordinates } from './log';
+
+describe('redactCoordinates', () => {
+  it('redacts position parameters whatever their format', () => {
+    expect(redactCoordinates('/api/search/nominatim/reverse?lat=18.5204&lon=73.8567&format=jsonv2'))
+      .toBe('/api/search/nominatim/reverse?lat=…&lon=…&format=jsonv2');
+    expect(redactCoordinates('/api/search/nominatim/reverse?lat=19&lon=1.9e1')).toBe('/api/search/nominatim/reverse?lat=…&lon=…');
+    expect(redactCoordinates('/api/search/nominatim/search?q=cafe&viewbox=73.7,18.4,73.9,18.6&bounded=1'))
+      .toBe('/api/search/nominatim/search?q=cafe&viewbox=…&bounded=1');
+    expect(redactCoordinates('/api/search/autocomplete/api?q=pune&LAT=18&Lon=73')).toBe('/api/search/autocomplete/api?q=pune&LAT=…&Lon=…');
+  });
+
+  it('redacts routing waypoints', () => {
+    expect(redactCoordinates('/api/route/route/v1/driving/73.85,18.52;73.9,18.55?overview=full'))
+      .toBe('/api/route/route/v1/driving/…?overview=full');
+    expect(redactCoordinates('/api/route/table/v1/foot/73,18;74,19')).toBe('/api/route/table/v1/foot/…');
+  });
+
+  it('redacts tile coordinates but keeps the format', () => {
+    expect(redactCoordinates('/api/tiles/tiles/v3/14/11571/7341.pbf')).toBe('/api/tiles/tiles/v3/…/…/….pbf');
+  });
+
+  it('catches stray decimal degrees', () => {
+    expect(redactCoordinates('Error: no route from 18.5204, 73.8567')).toBe('Error: no route from …, …');
+  });
+
+  it('leaves other requests alone', () => {
+    const path = '/api/search/nominatim/search?q=italian%20restaurant&limit=10&format=jsonv2';
+    expect(redactCoordinates(path)).toBe(path);
+    expect(redactCoordinates('/api/tiles/maps/streets-v2/style.json')).toBe('/api/tiles/maps/streets-v2/style.json');
+  });
+});
+
+describe('clientId', () => {
+  it('gives one address the same short id without containing it', () => {
+    expect(clientId('203.0.113.7')).toBe(clientId('203.0.113.7'));
+    expect(clientId('203.0.113.7')).not.toBe(clientId('203.0.113.8'));
+    expect(clientId('203.0.113.7')).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
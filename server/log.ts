@@ -0,0 +1,29 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+// Parameters and path segments that hold positions are redacted by name, whatever the numbers look like
+// ("lat=19", "1.9e1"). Stray decimal degrees, e.g. in error messages, are caught as a fallback.
+const COORDINATE_PARAM = /([?&](?:lat|lon|viewbox|around|poly|point|bbox)=)[^&#\s]*/gi;
+const ROUTING_PATH = /(\/(?:route|table|trip|match|nearest)\/v1\/[^/?\s]+\/)[^?#\s]+/g;
+const TILE = /\/\d+\/\d+\/\d+(@\dx)?\.(pbf|png|jpg|webp)/g;
+const COORDINATE = /-?\d{1,3}\.\d+/g;
+
+// Fresh every start, so logged client ids cannot be matched against addresses later
+const SALT = randomBytes(16);
+
+export function redactCoordinates(text: string): string {
+  return text
+    .replace(COORDINATE_PARAM, '$1…')
+    .replace(ROUTING_PATH, '$1…')
+    .replace(TILE, '/…/…/….$2')
+    .replace(COORDINATE, '…');
+}
+
+// Short stable id for a client address, enough to follow one client through the log
+export function clientId(address: string): string {
+  return createHash('sha256').update(SALT).update(address).digest('hex').slice(0, 8);
+}
+
+export function logRequest(client: string, method: string, path: string, status: number, started: number) {
+  const elapsed = Date.now() - started;
+  console.log(`${new Date().toISOString()} ${clientId(client)} ${method} ${redactCoordinates(path)} ${status} ${elapsed}ms`);
+}
@@ -0,0 +1,260 @@
+import { distanceInMeters } from '../src/services/spatial';
+import { jsonResponse, searchOnly } from './upstreams';
+import type { LatLon } from '../src/services/spatial';
+import type { ProxyRequest, UpstreamResponse, Upstreams } from './upstreams';
+
+// Fixtures shaped like each upstream's real answers, so the app runs without keys or network.
+// Places are made up around the searched point, or around Pune when a request names none.
+const DEFAULT_CENTER: LatLon = { lat: 18.5204, lon: 73.8567 };
+const PLACES_PER_SEARCH = 5;
+// Metres per second, as in src/services/routing.ts
+const SPEEDS: Record<string, number> = { foot: 1.4, bike: 4.2, driving: 11 };
+
+const LOOKUP_TYPES: Record<string, string> = { N: 'node', W: 'way', R: 'relation' };
+
+function notFound(request: ProxyRequest): UpstreamResponse {
+  return jsonResponse({ error: `The mock has no answer for ${request.path || '/'}` }, 404);
+}
+
+function numbers(values: (string | undefined)[]): number[] | null {
+  const parsed = values.map(Number);
+  return values.every(value => value !== undefined) && parsed.every(Number.isFinite) ? parsed : null;
+}
+
+// Points spread on a small circle, about `spread` metres out
+function around(center: LatLon, count: number, spread = 300): LatLon[] {
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * 2 * Math.PI;
+    const meters = spread * (0.4 + 0.6 * ((index + 1) / count));
+    return {
+      lat: center.lat + (meters * Math.cos(angle)) / 111320,
+      lon: center.lon + (meters * Math.sin(angle)) / (111320 * Math.cos(center.lat * Math.PI / 180))
+    };
+  });
+}
+
+function nominatimPlace(id: number, { lat, lon }: LatLon, name: string) {
+  return {
+    place_id: id,
+    lat: String(lat),
+    lon: String(lon),
+    display_name: `${name}, Mock Road, Mock City, Mockland`,
+    osm_type: 'node',
+    osm_id: id,
+    class: 'place',
+    type: 'locality',
+    importance: 0.5,
+    boundingbox: [lat - 0.05, lat + 0.05, lon - 0.05, lon + 0.05].map(String),
+    address: { road: 'Mock Road', city: 'Mock City', country: 'Mockland', country_code: 'mk' },
+    extratags: {}
+  };
+}
+
+async function nominatim(request: ProxyRequest): Promise<UpstreamResponse> {
+  const query = new URLSearchParams(request.query);
+  if (request.path === '/search') {
+    // viewbox is left,top,right,bottom
+    const [west, north, east, south] = numbers(query.get('viewbox')?.split(',') ?? []) ?? [];
+    const center = west === undefined ? DEFAULT_CENTER : { lat: (north + south) / 2, lon: (west + east) / 2 };
+    const name = query.get('q') ?? 'Place';
+    const limit = Math.min(Number(query.get('limit') || 3), 3);
+    const places = around(center, limit).map((point, index) => nominatimPlace(1000 + index, point, `${name} ${index + 1}`));
+    return jsonResponse(places);
+  }
+  if (request.path === '/reverse') {
+    const [lat, lon] = numbers([query.get('lat') ?? undefined, query.get('lon') ?? undefined]) ?? [];
+    if (lat === undefined) return jsonResponse({ error: 'Unable to geocode' });
+    return jsonResponse(nominatimPlace(2000, { lat, lon }, '1 Mock Road'));
+  }
+  if (request.path === '/lookup') {
+    // osm_ids is a list like N123,W456; the mock cannot know where they are, so they sit around the default centre
+    const ids = (query.get('osm_ids') ?? '').split(',').map(id => /^([NWR])(\d+)$/.exec(id.trim())).filter(match => match !== null);
+    const points = around(DEFAULT_CENTER, ids.length);
+    return jsonResponse(ids.map(([, type, id], index) => ({
+      ...nominatimPlace(Number(id), points[index], `Mock place ${id}`),
+      osm_type: LOOKUP_TYPES[type],
+      extratags: {
+        opening_hours: 'Mo-Sa 09:00-21:00',
+        phone: '+00 1234 5678',
+        website: 'https://example.com',
+        wheelchair: 'yes'
+      }
+    })));
+  }
+  return notFound(request);
+}
+
+// Reads the first tag filter and the search area out of a query built by src/services/overpass.ts
+async function overpass(request: ProxyRequest): Promise<UpstreamResponse> {
+  const data = new URLSearchParams(request.body?.toString() ?? '').get('data') ?? '';
+  const [, key = 'amenity', value = 'yes'] = /\["([^"]+)"(?:[=~]"\^?\(?([\w:]+))?/.exec(data) ?? [];
+
+  const circle = /around:(\d+),(-?[\d.]+),(-?[\d.]+)/.exec(data);
+  const bbox = /\((-?[\d.]+),(-?[\d.]+),(-?[\d.]+),(-?[\d.]+)\)/.exec(data);
+  const polygon = /poly:"(-?[\d.]+) (-?[\d.]+)/.exec(data);
+  const center = circle
+    ? { lat: Number(circle[2]), lon: Number(circle[3]) }
+    : bbox
+      ? { lat: (Number(bbox[1]) + Number(bbox[3])) / 2, lon: (Number(bbox[2]) + Number(bbox[4])) / 2 }
+      : polygon ? { lat: Number(polygon[1]), lon: Number(polygon[2]) } : DEFAULT_CENTER;
+  const spread = circle ? Math.min(Number(circle[1]) / 2, 2000) : 300;
+
+  const elements = around(center, PLACES_PER_SEARCH, spread).map((point, index) => ({
+    type: 'node',
+    id: 3000 + index,
+    ...point,
+    tags: { [key]: value, name: `Mock ${value.replace(/_/g, ' ')} ${index + 1}`, 'addr:city': 'Mock City' }
+  }));
+  return jsonResponse({ elements });
+}
+
+async function autocomplete(request: ProxyRequest): Promise<UpstreamResponse> {
+  if (request.path === '/search') return nominatim(request);
+  if (request.path !== '/api') return notFound(request);
+
+  const query = new URLSearchParams(request.query);
+  const [lat, lon] = numbers([query.get('lat') ?? undefined, query.get('lon') ?? undefined]) ?? [];
+  const center = lat === undefined ? DEFAULT_CENTER : { lat, lon };
+  const text = query.get('q') ?? '';
+  return jsonResponse({
+    type: 'FeatureCollection',
+    features: around(center, 3, 2000).map((point, index) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [point.lon, point.lat] },
+      properties: {
+        osm_type: 'N',
+        osm_id: 4000 + index,
+        osm_key: 'place',
+        osm_value: 'locality',
+        name: `${text} ${['Nagar', 'Chowk', 'Market'][index]}`,
+        city: 'Mock City',
+        country: 'Mockland'
+      }
+    }))
+  });
+}
+
+interface MockSearchBody {
+  query?: { bool?: { filter?: Record<string, Record<string, unknown>>[] } };
+}
+
+// Reads the first tag filter and the search area out of a query built by src/services/elasticsearch.ts
+async function elasticsearch(request: ProxyRequest): Promise<UpstreamResponse> {
+  let body: MockSearchBody = {};
+  try {
+    body = JSON.parse(request.body?.toString() || '{}');
+  } catch {
+    return jsonResponse({ error: 'Malformed search body' }, 400);
+  }
+  const filters = body.query?.bool?.filter ?? [];
+  const find = (type: string) => filters.find(filter => type in filter)?.[type];
+
+  const tag = find('term') ?? find('terms') ?? {};
+  const [field = 'tags.amenity'] = Object.keys(tag);
+  const tagValue = tag[field];
+  const value = String((Array.isArray(tagValue) ? tagValue[0] : tagValue) ?? 'yes');
+  const key = field.replace(/^tags\./, '');
+
+  const distance = find('geo_distance') as { distance: string; location: LatLon } | undefined;
+  const box = find('geo_bounding_box') as { location: { top_left: LatLon; bottom_right: LatLon } } | undefined;
+  const shape = find('geo_shape') as { location: { shape: { coordinates: [number, number][][] } } } | undefined;
+  const corner = shape?.location.shape.coordinates[0][0];
+  const center = distance
+    ? distance.location
+    : box
+      ? {
+        lat: (box.location.top_left.lat + box.location.bottom_right.lat) / 2,
+        lon: (box.location.top_left.lon + box.location.bottom_right.lon) / 2
+      }
+      : corner ? { lat: corner[1], lon: corner[0] } : DEFAULT_CENTER;
+  const spread = distance ? Math.min(parseFloat(distance.distance) / 2, 2000) : 300;
+
+  const hits = around(center, PLACES_PER_SEARCH, spread).map((point, index) => {
+    const name = `Mock ${value.replace(/_/g, ' ')} ${index + 1}`;
+    return {
+      _index: request.path.split('/')[1],
+      _id: `node/${5000 + index}`,
+      _score: 1,
+      _source: {
+        name,
+        display_name: `${name}, Mock Road, Mock City, Mockland`,
+        location: point,
+        osm_type: 'node',
+        osm_id: 5000 + index,
+        tags: { [key]: value, name, 'addr:city': 'Mock City' }
+      }
+    };
+  });
+  return jsonResponse({
+    took: 0,
+    timed_out: false,
+    _shards: { total: 1, successful: 1, skipped: 0, failed: 0 },
+    hits: { total: { value: hits.length, relation: 'eq' }, hits }
+  });
+}
+
+// Straight lines at typical speeds, in OSRM's format; Valhalla is not mocked
+async function routing(request: ProxyRequest): Promise<UpstreamResponse> {
+  const match = /^\/(route|table)\/v1\/(\w+)\/(.+)$/.exec(request.path);
+  if (!match) return jsonResponse({ code: 'InvalidUrl', message: 'The mock only speaks OSRM' }, 400);
+
+  const [, service, profile, path] = match;
+  const points = decodeURIComponent(path).split(';').map(pair => {
+    const [lon, lat] = pair.split(',').map(Number);
+    return { lat, lon };
+  });
+  const speed = SPEEDS[profile] ?? SPEEDS.driving;
+  // Roads are rarely straight
+  const travel = (from: LatLon, to: LatLon) => distanceInMeters(from, to) * 1.3;
+
+  if (service === 'table') {
+    const query = new URLSearchParams(request.query);
+    const indexes = (name: string) => query.get(name)?.split(';').map(Number) ?? points.map((_, index) => index);
+    const durations = indexes('sources').map(from =>
+      indexes('destinations').map(to => travel(points[from], points[to]) / speed)
+    );
+    return jsonResponse({ code: 'Ok', durations });
+  }
+
+  const legs = points.slice(1).map((to, index) => {
+    const from = points[index];
+    const distance = travel(from, to);
+    return {
+      distance,
+      steps: [
+        {
+          distance,
+          duration: distance / speed,
+          name: 'Mock Road',
+          maneuver: { type: 'depart', modifier: 'straight', location: [from.lon, from.lat] }
+        },
+        { distance: 0, duration: 0, name: '', maneuver: { type: 'arrive', location: [to.lon, to.lat] } }
+      ]
+    };
+  });
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  return jsonResponse({
+    code: 'Ok',
+    routes: [{
+      distance,
+      duration: distance / speed,
+      geometry: { coordinates: points.map(({ lat, lon }) => [lon, lat]) },
+      legs: legs.map(({ steps }) => ({ steps }))
+    }]
+  });
+}
+
+// A blank base map: the style has a background and nothing to fetch
+async function tiles(request: ProxyRequest): Promise<UpstreamResponse> {
+  if (!request.path.endsWith('/style.json')) return notFound(request);
+  return jsonResponse({
+    version: 8,
+    name: 'Mock',
+    sources: {},
+    layers: [{ id: 'background', type: 'background', paint: { 'background-color': '#e5e7eb' } }]
+  });
+}
+
+export function createMockUpstreams(): Upstreams {
+  return { nominatim, overpass, autocomplete, elasticsearch: searchOnly(elasticsearch), routing, tiles };
+}
@@ -0,0 +1,74 @@
+// Creates the POI index on ELASTICSEARCH_URL and loads OSM features into it:
+//
+//   npm run poi-index -- pois.geojson [more.geojson ...]
+//
+// Input is GeoJSON whose properties are OSM tags, as exported by overpass turbo or `osmium export`.
+// Lines and polygons are indexed at the average of their vertices. An existing index is added to.
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { readConfig } from './config';
+import { POI_INDEX, createPoiIndex, indexPois, toPoiDocument } from '../src/services/elasticsearch';
+import { representativePoint } from '../src/services/layers';
+import { POI_KEYS, displayName } from '../src/services/overpass';
+import type { PoiDocument } from '../src/services/elasticsearch';
+
+const BATCH_SIZE = 1000;
+// overpass turbo writes "node/123" as the feature id and as @id; osmium writes "n123"
+const OSM_ID = /^(?:(node|way|relation)\/|([nwr]))(\d+)$/;
+const OSM_TYPES: Record<string, string> = { n: 'node', w: 'way', r: 'relation' };
+
+function toDocument(feature: GeoJSON.Feature): PoiDocument | null {
+  const point = feature.geometry && representativePoint(feature.geometry);
+  if (!point) return null;
+
+  const tags = Object.fromEntries(
+    Object.entries(feature.properties ?? {})
+      .filter(([key, value]) => !key.startsWith('@') && (typeof value === 'string' || typeof value === 'number'))
+      .map(([key, value]) => [key, String(value)])
+  );
+  const mainKey = POI_KEYS.find(key => tags[key]);
+  if (!mainKey) return null;
+
+  const id = OSM_ID.exec(String(feature.properties?.['@id'] ?? feature.id ?? ''));
+
+  return toPoiDocument({
+    lat: point[1],
+    lon: point[0],
+    display_name: displayName(tags, { key: mainKey, value: tags[mainKey] }),
+    ...(id && { osm_type: id[1] ?? OSM_TYPES[id[2]], osm_id: Number(id[3]) }),
+    tags
+  });
+}
+
+function readFeatures(path: string): GeoJSON.Feature[] {
+  const data = JSON.parse(readFileSync(path, 'utf8')) as GeoJSON.GeoJSON;
+  if (data.type === 'FeatureCollection') return data.features;
+  if (data.type === 'Feature') return [data];
+  throw new Error(`${basename(path)} is not a GeoJSON feature or feature collection`);
+}
+
+async function main(paths: string[]) {
+  if (!paths.length) throw new Error('Usage: npm run poi-index -- pois.geojson [more.geojson ...]');
+  const { elasticsearchUrl } = readConfig(process.env, []);
+
+  const exists = await fetch(`${elasticsearchUrl}/${POI_INDEX}`, { method: 'HEAD' });
+  if (exists.status === 404) {
+    await createPoiIndex(elasticsearchUrl);
+    console.log(`Created ${POI_INDEX} on ${elasticsearchUrl}`);
+  } else if (!exists.ok) {
+    throw new Error(`Checking index ${POI_INDEX} failed: ${exists.status}`);
+  }
+
+  for (const path of paths) {
+    const documents = readFeatures(path).map(toDocument).filter((document): document is PoiDocument => document !== null);
+    for (let start = 0; start < documents.length; start += BATCH_SIZE) {
+      await indexPois(documents.slice(start, start + BATCH_SIZE), elasticsearchUrl);
+    }
+    console.log(`Indexed ${documents.length} POIs from ${basename(path)}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
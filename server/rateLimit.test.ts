@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('createRateLimiter', () => {
+  it('allows the limit within a window and then asks for the rest of the window', () => {
+    const limiter = createRateLimiter([{ limit: 2, windowMs: MINUTE }]);
+    expect(limiter.take('a', 0)).toBeNull();
+    expect(limiter.take('a', 1000)).toBeNull();
+    expect(limiter.take('a', 10_000)).toBe(50);
+    expect(limiter.take('a', 59_500)).toBe(1);
+    expect(limiter.take('a', MINUTE)).toBeNull();
+  });
+
+  it('counts clients separately', () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: MINUTE }]);
+    expect(limiter.take('a', 0)).toBeNull();
+    expect(limiter.take('b', 0)).toBeNull();
+    expect(limiter.take('a', 0)).toBe(60);
+  });
+
+  it('waits for the longest exhausted window', () => {
+    const limiter = createRateLimiter([{ limit: 2, windowMs: MINUTE }, { limit: 3, windowMs: DAY }]);
+    expect(limiter.take('a', 0)).toBeNull();
+    expect(limiter.take('a', 0)).toBeNull();
+    expect(limiter.take('a', MINUTE)).toBeNull();
+    // The minute window has room again, the daily quota does not
+    expect(limiter.take('a', 2 * MINUTE)).toBe((DAY - 2 * MINUTE) / 1000);
+  });
+
+  it('does not count refused requests', () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: MINUTE }, { limit: 2, windowMs: DAY }]);
+    expect(limiter.take('a', 0)).toBeNull();
+    expect(limiter.take('a', 1000)).toBe(59);
+    expect(limiter.take('a', MINUTE)).toBeNull();
+  });
+
+  it('keeps clients whose windows are still open when sweeping', () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: MINUTE }]);
+    limiter.take('a', 0);
+    limiter.sweep(30_000);
+    expect(limiter.take('a', 30_000)).toBe(30);
+    limiter.sweep(MINUTE);
+    expect(limiter.take('a', MINUTE)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import type { RateLimit } from './config';
+
+interface Counter {
+  start: number;
+  count: number;
+}
+
+export interface RateLimiter {
+  // Counts a request and returns null, or the seconds to wait when a limit is used up
+  take(client: string, now?: number): number | null;
+  // Forgets clients whose windows have all ended
+  sweep(now?: number): void;
+}
+
+// Fixed windows per client, e.g. a per-minute rate and a daily quota
+export function createRateLimiter(limits: RateLimit[]): RateLimiter {
+  const clients = new Map<string, Counter[]>();
+
+  return {
+    take(client, now = Date.now()) {
+      const counters = (clients.get(client) ?? limits.map(() => ({ start: now, count: 0 })))
+        .map((counter, index) => (now - counter.start >= limits[index].windowMs ? { start: now, count: 0 } : counter));
+      clients.set(client, counters);
+
+      const waits = counters
+        .map(({ start, count }, index) => (count >= limits[index].limit ? start + limits[index].windowMs - now : 0))
+        .filter(wait => wait > 0);
+      if (waits.length > 0) return Math.ceil(Math.max(...waits) / 1000);
+
+      counters.forEach(counter => counter.count++);
+      return null;
+    },
+
+    sweep(now = Date.now()) {
+      clients.forEach((counters, client) => {
+        if (counters.every((counter, index) => now - counter.start >= limits[index].windowMs)) clients.delete(client);
+      });
+    }
+  };
+}
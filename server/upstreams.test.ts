@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readConfig } from './config';
+import { createUpstreams, jsonResponse, nominatimUpstream, searchOnly } from './upstreams';
+import type { ProxyRequest, Upstream } from './upstreams';
+
+function request(overrides: Partial<ProxyRequest> = {}): ProxyRequest {
+  return { method: 'GET', path: '/search', query: 'q=cafe', apiBase: 'http://localhost:5173/api', ...overrides };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('nominatimUpstream', () => {
+  it('turns requests away once the shared queue is more than a few seconds long', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response('[]', { headers: { 'content-type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetch);
+    const nominatim = nominatimUpstream(readConfig({}, []));
+
+    // One a second: the sixth waits five seconds, the seventh would wait six
+    const queued = Array.from({ length: 6 }, () => nominatim(request()));
+    const rejected = await nominatim(request());
+    expect(rejected.status).toBe(503);
+    expect(rejected.retryAfter).toBe(6);
+
+    await vi.runAllTimersAsync();
+    expect((await Promise.all(queued)).map(({ status }) => status)).toEqual([200, 200, 200, 200, 200, 200]);
+    expect(fetch).toHaveBeenCalledTimes(6);
+
+    vi.advanceTimersByTime(1000);
+    expect((await nominatim(request())).status).toBe(200);
+  });
+
+  it('does not queue requests to a self-hosted server', async () => {
+    vi.stubGlobal('fetch', vi.fn<typeof globalThis.fetch>(async () => new Response('[]')));
+    const nominatim = nominatimUpstream(readConfig({ NOMINATIM_URL: 'http://nominatim.local' }, []));
+
+    const responses = await Promise.all(Array.from({ length: 20 }, () => nominatim(request())));
+    expect(responses.every(({ status }) => status === 200)).toBe(true);
+  });
+});
+
+describe('tiles upstream', () => {
+  const KEY = 'Secret123';
+  const tiles = () => createUpstreams(readConfig({ MAPTILER_KEY: KEY }, [])).tiles;
+
+  function stubMapTiler(body: string, contentType = 'application/json') {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response(body, { headers: { 'content-type': contentType } }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('adds the key upstream and strips it from styles and TileJSON', async () => {
+    const fetch = stubMapTiler(JSON.stringify({
+      sources: { openmaptiles: { url: `https://api.maptiler.com/tiles/v3/tiles.json?key=${KEY}` } },
+      sprite: `https://api.maptiler.com/maps/streets-v2/sprite?key=${KEY}&v=2`,
+      glyphs: `https://api.maptiler.com/fonts/{fontstack}/{range}.pbf?lang=en&key=${KEY}`
+    }));
+
+    const response = await tiles()(request({ path: '/maps/streets-v2/style.json', query: '' }));
+    expect(String(fetch.mock.calls[0][0])).toBe(`https://api.maptiler.com/maps/streets-v2/style.json?key=${KEY}`);
+    expect(response.body).not.toContain(KEY);
+    expect(JSON.parse(String(response.body))).toEqual({
+      sources: { openmaptiles: { url: 'http://localhost:5173/api/tiles/tiles/v3/tiles.json' } },
+      sprite: 'http://localhost:5173/api/tiles/maps/streets-v2/sprite?v=2',
+      glyphs: 'http://localhost:5173/api/tiles/fonts/{fontstack}/{range}.pbf?lang=en'
+    });
+  });
+
+  it('passes tiles through untouched', async () => {
+    stubMapTiler('tile bytes', 'application/x-protobuf');
+    const response = await tiles()(request({ path: '/tiles/v3/14/11571/7341.pbf', query: '' }));
+    expect(response.body.toString()).toBe('tile bytes');
+  });
+
+  it('refuses anything but map assets', async () => {
+    const fetch = stubMapTiler('{}');
+    expect((await tiles()(request({ path: '/geocoding/pune.json' }))).status).toBe(404);
+    expect((await tiles()(request({ path: '/maps/streets-v2/style.json', method: 'POST' }))).status).toBe(405);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable without a key', async () => {
+    const response = await createUpstreams(readConfig({}, [])).tiles(request({ path: '/maps/streets-v2/style.json' }));
+    expect(response.status).toBe(503);
+  });
+});
+
+describe('searchOnly', () => {
+  const elasticsearch = vi.fn<Upstream>(async () => jsonResponse({ hits: { hits: [] } }));
+
+  it('lets searches through', async () => {
+    const response = await searchOnly(elasticsearch)(request({ method: 'POST', path: '/pois/_search', query: '' }));
+    expect(response.status).toBe(200);
+    expect(elasticsearch).toHaveBeenCalledOnce();
+  });
+
+  it('refuses index management and other reads', async () => {
+    elasticsearch.mockClear();
+    const guarded = searchOnly(elasticsearch);
+    for (const [method, path] of [['DELETE', '/pois'], ['POST', '/pois/_doc'], ['POST', '/pois/_delete_by_query'], ['GET', '/_cat/indices'], ['GET', '/pois/_search']]) {
+      expect((await guarded(request({ method, path }))).status).toBe(403);
+    }
+    expect(elasticsearch).not.toHaveBeenCalled();
+  });
+});
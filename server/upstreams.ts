@@ -0,0 +1,151 @@
+import type { ServerConfig } from './config';
+
+const USER_AGENT = 'SmartMapSearch-proxy/1.0';
+const UPSTREAM_TIMEOUT = 30 * 1000;
+const MAPTILER_URL = 'https://api.maptiler.com';
+// Longest a request waits in the shared Nominatim queue before the client is asked to come back
+const MAX_NOMINATIM_WAIT = 5 * 1000;
+
+export interface ProxyRequest {
+  method: string;
+  // Path below the proxy's mount point, e.g. "/search" for /api/search/nominatim/search
+  path: string;
+  // Raw query string without the leading "?"
+  query: string;
+  body?: Buffer;
+  contentType?: string;
+  language?: string;
+  // Absolute URL of the /api mount as the browser sees it, for rewriting links in responses
+  apiBase: string;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  contentType: string;
+  cacheControl?: string;
+  // Seconds for the Retry-After header
+  retryAfter?: number;
+  body: Buffer | string;
+}
+
+export type Upstream = (request: ProxyRequest) => Promise<UpstreamResponse>;
+
+export interface Upstreams {
+  nominatim: Upstream;
+  overpass: Upstream;
+  autocomplete: Upstream;
+  elasticsearch: Upstream;
+  routing: Upstream;
+  tiles: Upstream;
+}
+
+export function jsonResponse(body: unknown, status = 200): UpstreamResponse {
+  return { status, contentType: 'application/json', body: JSON.stringify(body) };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function withQuery(url: string, query: string | URLSearchParams): string {
+  const search = query.toString();
+  return search ? `${url}?${search}` : url;
+}
+
+async function forward(url: string, request: ProxyRequest): Promise<UpstreamResponse> {
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const response = await fetch(url, {
+    method: request.method,
+    headers: {
+      'User-Agent': USER_AGENT,
+      ...(hasBody && request.contentType && { 'Content-Type': request.contentType }),
+      ...(request.language && { 'Accept-Language': request.language })
+    },
+    body: hasBody ? request.body : undefined,
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT)
+  });
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    cacheControl: response.headers.get('cache-control') ?? undefined,
+    body: Buffer.from(await response.arrayBuffer())
+  };
+}
+
+// Passes requests below the mount point straight on to `baseUrl`
+function passThrough(baseUrl: string): Upstream {
+  return request => forward(withQuery(`${baseUrl.replace(/\/$/, '')}${request.path}`, request.query), request);
+}
+
+// One queue for every client: the public server's limit is per application, not per user.
+// The queue is capped, so a single busy client cannot delay everyone else for minutes.
+export function nominatimUpstream({ nominatimUrl, nominatimEmail, nominatimInterval }: ServerConfig): Upstream {
+  let nextSlot = 0;
+  return async request => {
+    const query = new URLSearchParams(request.query);
+    if (nominatimEmail) query.set('email', nominatimEmail);
+
+    const now = Date.now();
+    const wait = nextSlot - now;
+    if (wait > MAX_NOMINATIM_WAIT) {
+      return { ...jsonResponse({ error: 'Geocoding is busy, try again shortly' }, 503), retryAfter: Math.ceil(wait / 1000) };
+    }
+    nextSlot = Math.max(now, nextSlot) + nominatimInterval;
+    if (wait > 0) await sleep(wait);
+    return forward(withQuery(`${nominatimUrl}${request.path}`, query), request);
+  };
+}
+
+// Only searches reach the cluster; index management stays off the public endpoint
+export function searchOnly(elasticsearch: Upstream): Upstream {
+  return async request => {
+    if (request.method !== 'POST' || !/^\/[^/]+\/_search$/.test(request.path)) {
+      return jsonResponse({ error: 'Only searches are allowed' }, 403);
+    }
+    return elasticsearch(request);
+  };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// What the map loads: styles, sprites, TileJSON, tiles and glyphs. Anything else would spend the key
+// on other MapTiler APIs such as geocoding.
+const MAP_ASSET_PATHS = [
+  /^\/maps\/[\w-]+\/(style\.json|sprite(@2x)?\.(json|png))$/,
+  /^\/tiles\/[\w-]+\/(tiles\.json|\d+\/\d+\/\d+\.(pbf|png|jpg|webp))$/,
+  /^\/fonts\/[^/]+\/\d+-\d+\.pbf$/
+];
+
+// Styles and TileJSON point at MapTiler with the key in every URL; both are rewritten to the proxy
+function tilesUpstream({ maptilerKey }: ServerConfig): Upstream {
+  return async request => {
+    if (!maptilerKey) return jsonResponse({ error: 'No MapTiler key configured' }, 503);
+    if (request.method !== 'GET') return jsonResponse({ error: 'Method not allowed' }, 405);
+    if (!MAP_ASSET_PATHS.some(pattern => pattern.test(request.path))) return jsonResponse({ error: 'Not found' }, 404);
+
+    const query = new URLSearchParams(request.query);
+    query.set('key', maptilerKey);
+    const response = await forward(withQuery(`${MAPTILER_URL}${request.path}`, query), request);
+    if (!response.contentType.includes('json')) return response;
+
+    const key = escapeRegex(encodeURIComponent(maptilerKey));
+    const body = response.body.toString()
+      .replace(new RegExp(`\\?key=${key}(&?)`, 'g'), (_, more: string) => (more ? '?' : ''))
+      .replace(new RegExp(`&key=${key}`, 'g'), '')
+      .split(MAPTILER_URL).join(`${request.apiBase}/tiles`);
+    return { ...response, body };
+  };
+}
+
+export function createUpstreams(config: ServerConfig): Upstreams {
+  return {
+    nominatim: nominatimUpstream(config),
+    overpass: passThrough(config.overpassUrl),
+    autocomplete: passThrough(config.autocompleteUrl),
+    elasticsearch: searchOnly(passThrough(config.elasticsearchUrl)),
+    routing: passThrough(config.routingUrl),
+    tiles: tilesUpstream(config)
+  };
+}
@@ -1,97 +1,250 @@
-import React, { useState } from 'react';
-import { Map as MapIcon, Navigation } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { Crosshair, Hexagon, Info, List, Map as MapIcon, Navigation, Upload, X } from 'lucide-react';
 import SearchBar from './components/SearchBar';
 import MapView from './components/Map';
 import ThemeToggle from './components/ThemeToggle';
 import BottomSheet from './components/BottomSheet';
-import { searchLocations as searchLocationsApi } from './services/mistral';
+import LayerPanel from './components/LayerPanel';
+import RankingDetails from './components/RankingDetails';
+import DirectionsPanel from './components/DirectionsPanel';
+import PlaceDetailsPanel from './components/PlaceDetailsPanel';
+import ResultFileMenu from './components/ResultFileMenu';
+import RefinementTrail from './components/RefinementTrail';
+import CollectionsPanel from './components/CollectionsPanel';
+import SaveToCollectionMenu from './components/SaveToCollectionMenu';
+import WhatsHerePanel from './components/WhatsHerePanel';
+import DensityPanel from './components/DensityPanel';
+import FacetBar from './components/FacetBar';
+import { useUserLayers } from './hooks/useUserLayers';
+import { useSearchSession } from './hooks/useSearchSession';
+import { usePlaceDetails } from './hooks/usePlaceDetails';
+import { useSearchLink } from './hooks/useSearchLink';
+import { useCollections } from './hooks/useCollections';
+import { useRecentSearches } from './hooks/useRecentSearches';
+import { useWhatsHere } from './hooks/useWhatsHere';
+import { useDensity } from './hooks/useDensity';
+import { useFacets } from './hooks/useFacets';
+import { geocodeArea, isUserAnchor, resolveMeeting, resolveRoute, resolveTravelTime, searchLocations as searchLocationsApi } from './services/search';
+import { parseSearchQuery, refineSearchQuery } from './services/providers';
+import { openingStatus } from './services/openingHours';
+import { applyConstraint, circleToRing } from './services/spatial';
+import { applyDelta, looksLikeRefinement, queryText } from './services/refinement';
+import { downloadResults, importResults } from './services/resultFiles';
+import { formatDuration, formatRouteDistance, getRoute } from './services/routing';
+import { collectionToLayer, placesToLocations } from './services/collections';
+import { suggestionName } from './services/autocomplete';
+import { radiusInMeters } from './services/parsedQuery';
+import { looksLikeDensityQuery } from './services/density';
+import type { BoundingBox, SearchConstraint } from './services/spatial';
+import type { Location } from './services/search';
+import type { Route, TravelProfile } from './services/routing';
+import type { Coordinates, ParsedQuery } from './services/parsedQuery';
+import type { SearchTurn } from './hooks/useSearchSession';
+import type { ResultFormat } from './services/resultFiles';
+import type { MapViewport, SearchLink } from './services/searchLink';
+import type { Collection } from './services/collections';
 
-interface Location {
-  lat: number;
-  lon: number;
-  display_name: string;
+function getCurrentPosition(): Promise<Coordinates> {
+  return new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      reject,
+      { enableHighAccuracy: true, timeout: 5000 }
+    );
+  });
+}
+
+interface Directions {
+  destination: Location;
+  profile: TravelProfile;
+  route: Route | null;
+  isLoading: boolean;
+  error: string | null;
 }
 
 function App() {
-  const [locations, setLocations] = useState<Location[]>([]);
   const [selectedLocation, setSelectedLocation] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedResults, setExpandedResults] = useState(false);
-  const [searchContext, setSearchContext] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [searchConstraint, setSearchConstraint] = useState<SearchConstraint | null>(null);
+  const [directions, setDirections] = useState<Directions | null>(null);
+  const routeRequest = useRef(0);
+  const { layers, layerError, addFiles, toggleLayer, removeLayer } = useUserLayers();
+  const session = useSearchSession();
+  const { placeDetails, openPlaceDetails, closePlaceDetails } = usePlaceDetails();
+  const searchLink = useSearchLink(link => restoreLink(link));
+  const [mapView, setMapView] = useState<MapViewport | null>(searchLink.initialLink?.view ?? null);
+  const restoreRequest = useRef(0);
+  const collections = useCollections();
+  const mapLayers = useMemo(
+    () => [...layers, ...collections.collections.map(collectionToLayer)],
+    [layers, collections.collections]
+  );
+  const savedPlaces = useMemo(
+    () => collections.collections.flatMap(collection =>
+      collection.places.map(place => ({ location: place.location, collection: collection.name }))
+    ),
+    [collections.collections]
+  );
+  const { recentSearches, addRecentSearch } = useRecentSearches();
+  const { whatsHere, openWhatsHere, closeWhatsHere } = useWhatsHere();
+  const { density, densityStyle, setDensityStyle, openDensity, closeDensity } = useDensity();
+  const [mapBounds, setMapBounds] = useState<BoundingBox | null>(null);
+  // A point picked on the map that stands in for the user's position, e.g. when geolocation is denied
+  const [searchOrigin, setSearchOrigin] = useState<Coordinates | null>(null);
+
+  const locateUser = () => (searchOrigin ? Promise.resolve(searchOrigin) : getCurrentPosition());
+  const [mapCenter, setMapCenter] = useState<Coordinates | undefined>(
+    searchLink.initialLink?.view ?? undefined
+  );
+  const { facets, facetSelection, facetedResults, toggleFacet, clearFacets } = useFacets(session.current);
+  // The list shows the top few; the map clusters every result, indexed the same way
+  const locations = facetedResults.slice(0, expandedResults ? 10 : 5);
+
+  // Narrows a parsed query to the drawn shape or isochrone, then searches and summarises it
+  const runSearch = async (
+    query: string,
+    parsed: ParsedQuery,
+    constraint: SearchConstraint | null
+  ): Promise<SearchTurn> => {
+    // A drawn shape or the viewport replaces whatever area the query named
+    let parsedQuery: ParsedQuery = constraint ? applyConstraint(parsed, constraint) : parsed;
+    const travelTime = parsedQuery.location?.travelTime;
+    if (travelTime) {
+      // "10 minutes walk" with no named origin starts from the user
+      if (!parsedQuery.location?.coordinates && !parsedQuery.location?.area) {
+        parsedQuery = { ...parsedQuery, location: { ...parsedQuery.location, coordinates: await locateUser() } };
+      }
+      parsedQuery = await resolveTravelTime(parsedQuery);
+    }
+    const route = parsedQuery.location?.route;
+    if (route) {
+      // "on the way to Agra" with no named start leaves from the user
+      if (!route.from && !parsedQuery.location?.coordinates) {
+        parsedQuery = { ...parsedQuery, location: { ...parsedQuery.location, coordinates: await locateUser() } };
+      }
+      parsedQuery = await resolveRoute(parsedQuery);
+    }
+    const meeting = parsedQuery.location?.meeting;
+    if (meeting) {
+      // "halfway between me and Bandra" starts one anchor from the user
+      if (meeting.anchors.some(isUserAnchor) && !parsedQuery.location?.coordinates) {
+        parsedQuery = { ...parsedQuery, location: { ...parsedQuery.location, coordinates: await locateUser() } };
+      }
+      parsedQuery = await resolveMeeting(parsedQuery);
+    }
+    const midpoint = meeting && parsedQuery.location?.coordinates;
+    const summary = (parsedQuery.context?.type
+      ? `Searching for: ${parsedQuery.searchTerm} (${parsedQuery.context.type})`
+      : `Searching for: ${parsedQuery.searchTerm}`)
+      + (constraint ? ' in the drawn area' : '')
+      + (travelTime ? ` within a ${travelTime.minutes} minute ${travelTime.mode}` : '')
+      + (route ? ` on the way${route.from ? ` from ${route.from}` : ''} to ${route.to}` : '')
+      + (meeting ? ` between ${meeting.anchors.map(anchor => anchor.place).join(', ')}` : '');
 
-  const handleSearch = async (query: string) => {
+    // Results arrive ranked by the ranking engine; layers the user has hidden are not searched
+    const results = await searchLocationsApi(query, parsedQuery, layers.filter(layer => layer.visible));
+    return {
+      query,
+      parsedQuery: parsed,
+      results,
+      summary,
+      travelArea: travelTime
+        ? parsedQuery.location?.polygon ?? null
+        : midpoint ? circleToRing(midpoint, radiusInMeters(parsedQuery)) : null,
+      corridor: parsedQuery.location?.corridor ?? null,
+      anchors: parsedQuery.location?.meeting?.anchors ?? null
+    };
+  };
+
+  // Counts every match in `bounds` instead of listing the top few; the visible map by default
+  const showDensity = (parsedQuery: ParsedQuery, bounds = mapBounds) => {
+    if (bounds) openDensity(parsedQuery, bounds);
+  };
+
+  // Each search becomes a browser history entry; a refinement is linked by its merged query rather than the follow-up
+  const pushTurn = (turn: SearchTurn, query: string, constraint: SearchConstraint | null) => {
+    searchLink.pushLink({ query, parsedQuery: turn.parsedQuery, constraint, view: null, selected: null }, turn);
+  };
+
+  // `near` centres the search on a point picked on the map, whatever area the query names
+  const handleSearch = async (query: string, constraint = searchConstraint, near?: Coordinates) => {
+    const previous = session.current;
+    // Follow-ups like "cheaper" refine the current search; anything else starts over
+    const refining = !near && previous !== undefined && looksLikeRefinement(query);
     setSearchQuery(query);
+    addRecentSearch(query);
     setIsLoading(true);
     setError(null);
     setSelectedLocation(null);
     setExpandedResults(false);
-    setSearchContext(null);
+    setDirections(null);
+    closePlaceDetails();
+    closeWhatsHere();
+    closeDensity();
 
     try {
-      // Get user's current position if needed
-      let userPosition: GeolocationPosition | null = null;
-      const hasLocationQuery = query.toLowerCase().includes('near me') || query.toLowerCase().includes('nearby');
-      if (hasLocationQuery) {
-        userPosition = await new Promise((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject, {
-            enableHighAccuracy: true,
-            timeout: 5000
-          });
-        });
-      }
-      
-      try {
-        const parsedContext = await parseSearchQuery(query, undefined);
-        setSearchContext(
-          parsedContext.intent?.primary 
-            ? `Searching for: ${parsedContext.searchTerm} (${parsedContext.intent.primary})`
-            : `Searching for: ${parsedContext.searchTerm}`
-        );
-      } catch (contextError) {
-        console.warn('Context analysis failed:', contextError);
-      }        
-
-      if (query.toLowerCase().includes('near me') || query.toLowerCase().includes('nearby')) {
-        userPosition = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject);
-        });
+      let turn: SearchTurn;
+      if (refining) {
+        const parsed = applyDelta(previous.parsedQuery, await refineSearchQuery(previous.parsedQuery, query));
+        turn = { ...await runSearch(queryText(parsed), parsed, constraint), query };
+      } else {
+        // Get user's current position if needed
+        const hasLocationQuery = query.toLowerCase().includes('near me') || query.toLowerCase().includes('nearby');
+        const userLocation = near ?? (hasLocationQuery ? await locateUser() : undefined);
+        let parsed = await parseSearchQuery(query, userLocation);
+        if (near) {
+          const location = { ...parsed.location, coordinates: near };
+          delete location.area;
+          parsed = { ...parsed, location };
+        }
+        turn = await runSearch(query, parsed, constraint);
       }
 
-      // Search locations using the enhanced search function
-      const results = await searchLocationsApi(
-        query,
-        userPosition ? {
-          latitude: userPosition.coords.latitude,
-          longitude: userPosition.coords.longitude
-        } : undefined
-      );
-
-      // Process and display results
-      if (results.length === 0) {
-        setError('No locations found. Try a different search term.');
+      if (turn.results.length === 0) {
+        // A refinement that matches nothing keeps the previous results on screen
+        setError(refining
+          ? 'No locations match that refinement. Try something else.'
+          : 'No locations found. Try a different search term.');
+        if (!refining) session.reset();
+      } else if (refining) {
+        session.refine(turn);
+        pushTurn(turn, queryText(turn.parsedQuery), constraint);
       } else {
-        // Sort by distance if user position is available
-        if (userPosition) {
-          results.sort((a: Location, b: Location) => {
-            const distA = calculateDistance(
-              userPosition.coords.latitude,
-              userPosition.coords.longitude,
-              a.lat,
-              a.lon
-            );
-            const distB = calculateDistance(
-              userPosition.coords.latitude,
-              userPosition.coords.longitude,
-              b.lat,
-              b.lon
-            );
-            return distA - distB;
-          });
+        session.start(turn);
+        pushTurn(turn, query, constraint);
+        if (looksLikeDensityQuery(query)) {
+          // "concentrated in Bengaluru" counts across the whole city, not just where the map happens to be
+          const area = turn.parsedQuery.location?.area;
+          showDensity(turn.parsedQuery, (area && await geocodeArea(area).catch(() => undefined)) || mapBounds);
         }
+      }
+    } catch (error) {
+      console.error('Search error:', error);
+      setError('Failed to search locations. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Repeats the current step in a new area, keeping the refinement trail intact
+  const handleSearchArea = async (constraint: SearchConstraint) => {
+    const current = session.current;
+    if (!current) return;
+    setIsLoading(true);
+    setError(null);
+    setSelectedLocation(null);
 
-        setLocations(results.slice(0, expandedResults ? 10 : 5));
+    try {
+      const turn = await runSearch(queryText(current.parsedQuery), current.parsedQuery, constraint);
+      if (turn.results.length === 0) {
+        setError('No locations found in this area.');
+      } else {
+        session.replaceCurrent({ ...turn, query: current.query });
+        pushTurn(turn, session.turns.length > 1 ? queryText(current.parsedQuery) : current.query, constraint);
       }
     } catch (error) {
       console.error('Search error:', error);
@@ -101,53 +254,166 @@ function App() {
     }
   };
 
-  const clearSearch = () => {
-    setLocations([]);
+  const resetSearch = () => {
+    session.reset();
     setSelectedLocation(null);
     setError(null);
-    setSearchContext(null);
     setSearchQuery('');
     setExpandedResults(false);
+    setDirections(null);
+    closePlaceDetails();
+    closeWhatsHere();
+    closeDensity();
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  const clearSearch = () => {
+    resetSearch();
+    searchLink.clearLink();
   };
 
-  const handleNavigate = async (location: Location) => {
+  // Reopens a search from the URL with the parsed query it carries, so the LLM is never called
+  const restoreLink = async (link: SearchLink | null) => {
+    const request = ++restoreRequest.current;
+    resetSearch();
+    setSearchConstraint(link?.constraint ?? null);
+    if (!link) return;
+    setSearchQuery(link.query);
+    setIsLoading(true);
+
     try {
-      // Try to use the Web Share API first
-      if (navigator.share) {
-        await navigator.share({
-          title: location.display_name,
-          text: `Navigate to ${location.display_name}`,
-          url: `https://www.google.com/maps/dir/?api=1&destination=${location.lat},${location.lon}`
-        });
-      } else {
-        // Fallback to opening Google Maps directly
-        window.open(
-          `https://www.google.com/maps/dir/?api=1&destination=${location.lat},${location.lon}`,
-          '_blank'
-        );
+      const turn = await searchLink.loadTurn(link, () => runSearch(link.query, link.parsedQuery, link.constraint));
+      if (request !== restoreRequest.current) return;
+      if (turn.results.length === 0) {
+        setError('No locations found. Try a different search term.');
+        return;
+      }
+      session.start({ ...turn, query: link.query });
+      setSelectedLocation(link.selected);
+      setExpandedResults(link.selected !== null && link.selected >= 5);
+      setMapView(link.view);
+    } catch (error) {
+      console.error('Search error:', error);
+      if (request === restoreRequest.current) setError('Failed to search locations. Please try again.');
+    } finally {
+      if (request === restoreRequest.current) setIsLoading(false);
+    }
+  };
+
+  const selectLocation = (index: number) => {
+    setSelectedLocation(index);
+    // A pin picked on the map may be past the first five in the list
+    if (index >= 5) setExpandedResults(true);
+    searchLink.updateLink({ selected: index });
+  };
+
+  const handleExport = (format: ResultFormat) => {
+    const current = session.current;
+    if (!current) return;
+    downloadResults({
+      metadata: { query: current.query, parsedQuery: current.parsedQuery, exportedAt: new Date().toISOString() },
+      // What the facet bar leaves visible
+      locations: facetedResults
+    }, format, current.query);
+  };
+
+  // Shows places that didn't come from a search, such as a file or a collection, as a fresh result set
+  const showResultSet = (turn: SearchTurn) => {
+    session.start(turn);
+    setSelectedLocation(null);
+    setExpandedResults(false);
+    setDirections(null);
+    closeDensity();
+    closePlaceDetails();
+    // These can't be linked to, so the URL no longer describes what's shown
+    searchLink.clearLink();
+  };
+
+  // Opens an exported file as a fresh result set
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const { metadata, locations: imported } = await importResults(file);
+      if (imported.length === 0) {
+        setError(`No places found in ${file.name}.`);
+        return;
+      }
+      const query = metadata.query ?? file.name;
+      showResultSet({
+        query,
+        parsedQuery: metadata.parsedQuery ?? { searchTerm: query },
+        results: imported,
+        summary: `Opened ${file.name}`,
+        travelArea: null,
+        corridor: null,
+        anchors: null
+      });
+    } catch (error) {
+      console.error('Import error:', error);
+      setError(error instanceof Error ? error.message : `Could not open ${file.name}.`);
+    }
+  };
+
+  const handleShowCollection = (collection: Collection) => {
+    setError(null);
+    showResultSet({
+      query: collection.name,
+      parsedQuery: { searchTerm: collection.name },
+      results: placesToLocations(collection),
+      summary: `Saved in ${collection.name}`,
+      travelArea: null,
+      corridor: null,
+      anchors: null
+    });
+  };
+
+  // A place picked from the suggestions needs no parsing or search
+  const handleSelectPlace = (location: Location) => {
+    setError(null);
+    setSearchQuery(suggestionName(location));
+    showResultSet({
+      query: suggestionName(location),
+      parsedQuery: { searchTerm: suggestionName(location) },
+      results: [location],
+      summary: location.display_name,
+      travelArea: null,
+      corridor: null,
+      anchors: null
+    });
+    setSelectedLocation(0);
+  };
+
+  // Routes from the user's position; a newer request supersedes any still in flight
+  const handleNavigate = async (location: Location, profile: TravelProfile = directions?.profile ?? 'walk') => {
+    const request = ++routeRequest.current;
+    setDirections({ destination: location, profile, route: null, isLoading: true, error: null });
+
+    try {
+      const origin = await locateUser();
+      const route = await getRoute([origin, { latitude: location.lat, longitude: location.lon }], profile);
+      if (request === routeRequest.current) {
+        setDirections({ destination: location, profile, route, isLoading: false, error: null });
       }
     } catch (error) {
-      console.error('Error sharing location:', error);
-      // Fallback to opening Google Maps directly if sharing fails
-      window.open(
-        `https://www.google.com/maps/dir/?api=1&destination=${location.lat},${location.lon}`,
-        '_blank'
-      );
+      console.error('Routing error:', error);
+      if (request === routeRequest.current) {
+        setDirections({
+          destination: location,
+          profile,
+          route: null,
+          isLoading: false,
+          error: error instanceof GeolocationPositionError
+            ? 'Enable location services to get directions.'
+            : 'Could not find a route. Try another travel mode.'
+        });
+      }
     }
   };
 
+  const closeDirections = () => {
+    routeRequest.current++;
+    setDirections(null);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
       <ThemeToggle />
@@ -161,7 +427,7 @@ function App() {
               Smart Map Search
             </h1>
             <p className="text-sm text-gray-600 dark:text-gray-300">
-              Try "find me Italian restaurants open now" or "cafes with outdoor seating nearby"
+              Try "find me Italian restaurants open now", then refine with "only the ones with wifi" or "cheaper"
             </p>
           </div>
 
@@ -171,7 +437,24 @@ function App() {
               onClear={clearSearch}
               isLoading={isLoading}
               value={searchQuery}
+              recentSearches={recentSearches}
+              savedPlaces={savedPlaces}
+              near={mapCenter}
+              onSelectPlace={handleSelectPlace}
             />
+            {searchOrigin && (
+              <div className="mt-2 flex items-center text-sm text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 pl-3 pr-1 py-1 rounded-full">
+                <Crosshair size={14} className="mr-2" />
+                Nearby searches start from {searchOrigin.latitude.toFixed(4)}, {searchOrigin.longitude.toFixed(4)}
+                <button
+                  onClick={() => setSearchOrigin(null)}
+                  className="ml-2 p-1 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/40"
+                  title="Use your location again"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
             {error && (
               <div className="mt-4 text-red-500 bg-red-50 dark:bg-red-900/20 px-4 py-2 rounded-lg">
                 {error}
@@ -180,63 +463,255 @@ function App() {
           </div>
         </div>
 
-        <div className="flex-1 relative">
+        <div
+          className="flex-1 relative"
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDraggingFile(true);
+          }}
+          onDragLeave={() => setIsDraggingFile(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDraggingFile(false);
+            // KML and GPX open as results; GeoJSON and CSV become searchable layers
+            const files = Array.from(e.dataTransfer.files);
+            const resultFile = files.find(file => /\.(kml|gpx)$/i.test(file.name));
+            const layerFiles = files.filter(file => file !== resultFile);
+            if (resultFile) handleImport(resultFile);
+            if (layerFiles.length) addFiles(layerFiles);
+          }}
+        >
           <MapView 
-            locations={locations} 
+            locations={density ? [] : facetedResults} 
             selectedLocation={selectedLocation}
-            onLocationSelect={setSelectedLocation}
+            onLocationSelect={selectLocation}
+            layers={mapLayers}
+            constraint={searchConstraint}
+            onConstraintChange={setSearchConstraint}
+            onSearchArea={handleSearchArea}
+            route={directions?.route}
+            travelArea={session.current?.travelArea}
+            corridor={session.current?.corridor}
+            anchors={session.current?.anchors}
+            view={mapView}
+            onPointSelect={openWhatsHere}
+            pickedPoint={whatsHere?.point}
+            onViewChange={(view) => {
+              setMapCenter({ latitude: view.latitude, longitude: view.longitude });
+              searchLink.updateLink({ view });
+            }}
+            density={density}
+            densityStyle={densityStyle}
+            onDensityStyleChange={setDensityStyle}
+            onBoundsChange={setMapBounds}
           />
 
+          <div className="absolute top-4 left-4 z-10 w-64 space-y-2">
+            <LayerPanel
+              layers={layers}
+              error={layerError}
+              onAddFiles={addFiles}
+              onToggle={toggleLayer}
+              onRemove={removeLayer}
+            />
+            <CollectionsPanel
+              collections={collections.collections}
+              error={collections.collectionError}
+              onToggle={collections.toggleCollection}
+              onRemove={collections.removeCollection}
+              onShow={handleShowCollection}
+              onRemovePlace={collections.removePlace}
+              onNoteChange={collections.setNote}
+              onImport={collections.importFile}
+              onExport={collections.exportFile}
+            />
+          </div>
+
+          {isDraggingFile && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-500/20 border-4 border-dashed border-blue-500 pointer-events-none">
+              <div className="flex items-center bg-white dark:bg-gray-800 px-4 py-2 rounded-lg shadow-lg text-gray-800 dark:text-white">
+                <Upload size={20} className="mr-2 text-blue-500" />
+                Drop GeoJSON or CSV to add a layer, KML or GPX to open results
+              </div>
+            </div>
+          )}
+
           <BottomSheet 
-            isOpen={locations.length > 0}
-            title="Search Results"
+            isOpen={(session.current?.results.length ?? 0) > 0 || directions !== null || placeDetails !== null || whatsHere !== null}
+            title={directions
+              ? `Directions to ${directions.destination.display_name.split(',')[0]}`
+              : placeDetails
+                ? placeDetails.details?.name ?? placeDetails.location.display_name.split(',')[0]
+                : whatsHere
+                  ? whatsHere.description?.name ?? 'Dropped pin'
+                  : 'Search Results'}
             resultsCount={locations.length}
-            onClose={clearSearch}
+            subtitle={directions?.route
+              ? `${formatDuration(directions.route.duration)} · ${formatRouteDistance(directions.route.distance)}`
+              : placeDetails ? 'Place details' : whatsHere ? "What's here" : undefined}
+            onClose={directions ? closeDirections : placeDetails ? closePlaceDetails : whatsHere ? closeWhatsHere : clearSearch}
           >
-            <div className="space-y-4 px-4 py-2">
-              {searchContext && (
-                <div className="text-sm text-gray-500 dark:text-gray-400 pb-2 border-b dark:border-gray-700">
-                  {searchContext}
-                </div>
-              )}
-              {locations.map((location, index) => (
-                <div
-                  key={index}
-                  className={`bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm hover:shadow-md transition-all cursor-pointer border ${
-                    selectedLocation === index 
-                      ? 'border-blue-500 dark:border-blue-400' 
-                      : 'border-transparent'
-                  }`}
-                >
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1" onClick={() => setSelectedLocation(index)}>
-                      <h3 className="font-medium text-gray-800 dark:text-white">{location.display_name}</h3>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                        Coordinates: {location.lat}, {location.lon}
-                      </p>
+            {directions ? (
+              <DirectionsPanel
+                destination={directions.destination}
+                profile={directions.profile}
+                route={directions.route}
+                isLoading={directions.isLoading}
+                error={directions.error}
+                onProfileChange={(profile) => handleNavigate(directions.destination, profile)}
+              />
+            ) : placeDetails ? (
+              <PlaceDetailsPanel
+                location={placeDetails.location}
+                details={placeDetails.details}
+                isLoading={placeDetails.isLoading}
+                error={placeDetails.error}
+                onNavigate={handleNavigate}
+              />
+            ) : whatsHere ? (
+              <WhatsHerePanel
+                key={`${whatsHere.point.latitude},${whatsHere.point.longitude}`}
+                point={whatsHere.point}
+                description={whatsHere.description}
+                isLoading={whatsHere.isLoading}
+                isOrigin={searchOrigin?.latitude === whatsHere.point.latitude && searchOrigin.longitude === whatsHere.point.longitude}
+                onSearchNear={(query) => handleSearch(query, null, whatsHere.point)}
+                onSetOrigin={() => setSearchOrigin(whatsHere.point)}
+                onOpenPlace={openPlaceDetails}
+              />
+            ) : (
+              <div className="space-y-4 px-4 py-2">
+                {session.current && (
+                  <div className="space-y-2 text-sm text-gray-500 dark:text-gray-400 pb-2 border-b dark:border-gray-700">
+                    <RefinementTrail
+                      queries={session.turns.map(turn => turn.query)}
+                      onSelect={(index) => {
+                        const turn = session.turns[index];
+                        session.rewind(index);
+                        setSelectedLocation(null);
+                        setExpandedResults(false);
+                        pushTurn(turn, index > 0 ? queryText(turn.parsedQuery) : turn.query, searchConstraint);
+                      }}
+                    />
+                    <div className="flex items-center justify-between">
+                      <span>{session.current.summary}</span>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={closeDensity}
+                          className={`p-1.5 rounded-md transition-colors ${density ? 'hover:bg-gray-100 dark:hover:bg-gray-700' : 'bg-blue-500 text-white'}`}
+                          title="List the best matches"
+                        >
+                          <List size={16} />
+                        </button>
+                        <button
+                          onClick={() => session.current && showDensity(session.current.parsedQuery)}
+                          className={`p-1.5 rounded-md transition-colors ${density ? 'bg-blue-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                          title="Show where every match in view is concentrated"
+                        >
+                          <Hexagon size={16} />
+                        </button>
+                        <ResultFileMenu canExport={locations.length > 0} onExport={handleExport} onImport={handleImport} />
+                      </div>
                     </div>
-                    <button
-                      onClick={() => handleNavigate(location)}
-                      className="ml-4 p-2 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 bg-blue-50 dark:bg-blue-900/20 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
-                      title="Navigate to this location"
-                    >
-                      <Navigation size={20} />
-                    </button>
+                    {!density && (
+                      <FacetBar
+                        facets={facets}
+                        selection={facetSelection}
+                        onToggle={(key, value) => {
+                          toggleFacet(key, value);
+                          setSelectedLocation(null);
+                        }}
+                        onClear={() => {
+                          clearFacets();
+                          setSelectedLocation(null);
+                        }}
+                      />
+                    )}
                   </div>
-                </div>
-              ))}
-              {locations.length === 5 && !expandedResults && (
-                <button
-                  onClick={() => {
-                    setExpandedResults(true);
-                    handleSearch(searchQuery);
-                  }}
-                  className="w-full py-2 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 text-center"
-                >
-                  Show more results
-                </button>
-              )}
-            </div>
+                )}
+                {!density && session.current && !facetedResults.length && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No results match the selected filters.</p>
+                )}
+                {density && session.current && (
+                  <DensityPanel
+                    density={density}
+                    isStale={mapBounds !== null && mapBounds.join() !== density.bounds.join()}
+                    onRefresh={() => session.current && showDensity(session.current.parsedQuery)}
+                  />
+                )}
+                {!density && locations.map((location, index) => {
+                  const status = openingStatus(location);
+                  return (
+                    <div
+                      key={index}
+                      className={`bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm hover:shadow-md transition-all cursor-pointer border ${
+                        selectedLocation === index 
+                          ? 'border-blue-500 dark:border-blue-400' 
+                          : 'border-transparent'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1" onClick={() => selectLocation(index)}>
+                          <h3 className="font-medium text-gray-800 dark:text-white">{location.display_name}</h3>
+                          {location.layer && (
+                            <span className="inline-block mt-1 px-2 py-0.5 text-xs rounded-full bg-purple-50 dark:bg-purple-900/30 text-purple-600 dark:text-purple-300">
+                              {location.layer}
+                            </span>
+                          )}
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                            Coordinates: {location.lat}, {location.lon}
+                          </p>
+                          {status && (
+                            <p className={`text-sm mt-1 ${
+                              status.open
+                                ? 'text-green-600 dark:text-green-400'
+                                : 'text-red-500 dark:text-red-400'
+                            }`}>
+                              {status.label}
+                            </p>
+                          )}
+                          {location.ranking && <RankingDetails ranking={location.ranking} />}
+                        </div>
+                        <div className="ml-4 flex flex-col gap-2">
+                          <button
+                            onClick={() => handleNavigate(location)}
+                            className="p-2 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 bg-blue-50 dark:bg-blue-900/20 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+                            title="Directions to this location"
+                          >
+                            <Navigation size={20} />
+                          </button>
+                          <button
+                            onClick={() => {
+                              selectLocation(index);
+                              openPlaceDetails(location);
+                            }}
+                            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                            title="Details"
+                          >
+                            <Info size={20} />
+                          </button>
+                          <SaveToCollectionMenu
+                            location={location}
+                            collections={collections.collections}
+                            onToggle={(id) => collections.togglePlace(id, location)}
+                            onCreate={(name) => collections.addCollection(name, location)}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+                {!density && locations.length === 5 && !expandedResults && (
+                  <button
+                    onClick={() => setExpandedResults(true)}
+                    className="w-full py-2 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 text-center"
+                  >
+                    Show more results
+                  </button>
+                )}
+              </div>
+            )}
           </BottomSheet>
         </div>
       </div>
@@ -6,10 +6,11 @@ interface BottomSheetProps {
   children: React.ReactNode;
   title: string;
   resultsCount: number;
+  subtitle?: string;
   onClose: () => void;
 }
 
-export default function BottomSheet({ isOpen, children, title, resultsCount, onClose }: BottomSheetProps) {
+export default function BottomSheet({ isOpen, children, title, resultsCount, subtitle, onClose }: BottomSheetProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   return (
@@ -37,7 +38,7 @@ export default function BottomSheet({ isOpen, children, title, resultsCount, onC
               }`}
             />
           </div>
-          <p className="text-sm text-gray-500 dark:text-gray-400">{resultsCount} results found</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{subtitle ?? `${resultsCount} results found`}</p>
         </div>
         <button
           onClick={onClose}
@@ -0,0 +1,158 @@
+import { useRef, useState } from 'react';
+import { Bookmark, ChevronDown, ChevronRight, Download, Eye, EyeOff, FolderOpen, List, X } from 'lucide-react';
+import type { Collection } from '../services/collections';
+
+interface CollectionsPanelProps {
+  collections: Collection[];
+  error: string | null;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  onShow: (collection: Collection) => void;
+  onRemovePlace: (id: string, placeId: string) => void;
+  onNoteChange: (id: string, placeId: string, note: string) => void;
+  onImport: (file: File) => void;
+  onExport: (id?: string) => void;
+}
+
+export default function CollectionsPanel({
+  collections,
+  error,
+  onToggle,
+  onRemove,
+  onShow,
+  onRemovePlace,
+  onNoteChange,
+  onImport,
+  onExport
+}: CollectionsPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b dark:border-gray-700">
+        <div className="flex items-center text-gray-800 dark:text-white font-medium">
+          <Bookmark size={16} className="mr-2" />
+          Collections
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onExport()}
+            disabled={collections.length === 0}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            title="Export all collections"
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Import collections"
+          >
+            <FolderOpen size={16} />
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {collections.length === 0 ? (
+        <p className="px-3 py-2 text-gray-500 dark:text-gray-400">
+          Star a result to start a collection
+        </p>
+      ) : (
+        <ul className="py-1 max-h-72 overflow-y-auto">
+          {collections.map(collection => (
+            <li key={collection.id}>
+              <div className="flex items-center px-3 py-1">
+                <button
+                  onClick={() => setExpanded(expanded === collection.id ? null : collection.id)}
+                  className="mr-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title={expanded === collection.id ? 'Hide places' : 'Show places and notes'}
+                >
+                  {expanded === collection.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                </button>
+                <span className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: collection.color }} />
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-200" title={collection.name}>
+                  {collection.name}
+                </span>
+                <span className="text-xs text-gray-400 mx-2">{collection.places.length}</span>
+                <button
+                  onClick={() => onShow(collection)}
+                  disabled={collection.places.length === 0}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+                  title="Show as results"
+                >
+                  <List size={14} />
+                </button>
+                <button
+                  onClick={() => onToggle(collection.id)}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  title={collection.visible ? 'Hide on map' : 'Show on map'}
+                >
+                  {collection.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                </button>
+                <button
+                  onClick={() => onExport(collection.id)}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  title="Export collection"
+                >
+                  <Download size={14} />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${collection.name}" and its ${collection.places.length} places?`)) {
+                      onRemove(collection.id);
+                    }
+                  }}
+                  className="p-1 text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400"
+                  title="Delete collection"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+              {expanded === collection.id && (
+                <ul className="pl-9 pr-3 pb-2 space-y-2">
+                  {collection.places.map(place => (
+                    <li key={place.id}>
+                      <div className="flex items-center">
+                        <span className="flex-1 truncate text-gray-700 dark:text-gray-200" title={place.location.display_name}>
+                          {place.location.tags?.name ?? place.location.display_name.split(',')[0]}
+                        </span>
+                        <button
+                          onClick={() => onRemovePlace(collection.id, place.id)}
+                          className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                          title="Remove from collection"
+                        >
+                          <X size={12} />
+                        </button>
+                      </div>
+                      <textarea
+                        value={place.note}
+                        onChange={(e) => onNoteChange(collection.id, place.id, e.target.value)}
+                        placeholder="Add a note"
+                        rows={1}
+                        className="w-full mt-1 px-2 py-1 text-xs rounded border dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200 placeholder-gray-400 resize-y focus:outline-none focus:border-blue-500"
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p className="px-3 py-2 text-red-500 border-t dark:border-gray-700">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Flame, Hexagon, Loader2 } from 'lucide-react';
+import { DENSITY_COLORS } from '../services/density';
+import type { DensityStyle } from '../services/density';
+
+interface DensityLegendProps {
+  style: DensityStyle;
+  onStyleChange: (style: DensityStyle) => void;
+  // Lower bound of each bin colour; unused by the heatmap, which has no counts
+  breaks: number[];
+  total: number;
+  truncated: boolean;
+  isLoading: boolean;
+}
+
+const buttonClass = 'p-1.5 rounded-md transition-colors';
+const idleClass = 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700';
+const activeClass = 'bg-blue-500 text-white';
+
+export default function DensityLegend({ style, onStyleChange, breaks, total, truncated, isLoading }: DensityLegendProps) {
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-2 text-xs text-gray-600 dark:text-gray-300">
+      <div className="flex items-center justify-between space-x-3">
+        <span className="flex items-center">
+          {isLoading && <Loader2 size={14} className="mr-1 animate-spin" />}
+          {total} places{truncated && ' (first ones only)'}
+        </span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onStyleChange('hexbin')}
+            className={`${buttonClass} ${style === 'hexbin' ? activeClass : idleClass}`}
+            title="Count places in hexagons"
+          >
+            <Hexagon size={16} />
+          </button>
+          <button
+            onClick={() => onStyleChange('heatmap')}
+            className={`${buttonClass} ${style === 'heatmap' ? activeClass : idleClass}`}
+            title="Show a heatmap"
+          >
+            <Flame size={16} />
+          </button>
+        </div>
+      </div>
+      {style === 'hexbin' ? (
+        <div className="flex mt-2">
+          {breaks.map((value, index) => (
+            <div key={value} className="flex-1 min-w-[2.5rem] text-center">
+              <div className="h-2" style={{ backgroundColor: DENSITY_COLORS[index] }} />
+              <span>{value}+</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-2">
+          <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${DENSITY_COLORS.join(', ')})` }} />
+          <div className="flex justify-between">
+            <span>Fewer</span>
+            <span>More</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
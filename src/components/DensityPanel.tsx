@@ -0,0 +1,38 @@
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { DensityState } from '../hooks/useDensity';
+
+interface DensityPanelProps {
+  density: DensityState;
+  // The map has moved since the places were counted
+  isStale: boolean;
+  onRefresh: () => void;
+}
+
+export default function DensityPanel({ density, isStale, onRefresh }: DensityPanelProps) {
+  return (
+    <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+      {density.isLoading ? (
+        <p className="flex items-center">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          Counting places in view…
+        </p>
+      ) : density.error ? (
+        <p className="text-red-500 dark:text-red-400">{density.error}</p>
+      ) : (
+        <p>
+          {density.points.length} places in the counted area.
+          {density.truncated && ' Only the first ones were fetched; zoom in for complete counts.'}
+        </p>
+      )}
+      {isStale && !density.isLoading && (
+        <button
+          onClick={onRefresh}
+          className="flex items-center px-3 py-1.5 rounded-md text-blue-500 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+        >
+          <RefreshCw size={14} className="mr-2" />
+          Count this view
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Bike, Car, ExternalLink, Footprints, Loader2 } from 'lucide-react';
+import { externalDirectionsUrl, formatDuration, formatRouteDistance, TRAVEL_PROFILES } from '../services/routing';
+import type { LucideIcon } from 'lucide-react';
+import type { Route, TravelProfile } from '../services/routing';
+import type { Location } from '../services/search';
+
+const PROFILE_OPTIONS: Record<TravelProfile, { icon: LucideIcon; label: string }> = {
+  walk: { icon: Footprints, label: 'Walk' },
+  bike: { icon: Bike, label: 'Bike' },
+  drive: { icon: Car, label: 'Drive' }
+};
+
+interface DirectionsPanelProps {
+  destination: Location;
+  profile: TravelProfile;
+  route: Route | null;
+  isLoading: boolean;
+  error: string | null;
+  onProfileChange: (profile: TravelProfile) => void;
+}
+
+export default function DirectionsPanel({
+  destination,
+  profile,
+  route,
+  isLoading,
+  error,
+  onProfileChange
+}: DirectionsPanelProps) {
+  return (
+    <div className="px-4 py-2 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-full p-1">
+          {TRAVEL_PROFILES.map(option => {
+            const { icon: Icon, label } = PROFILE_OPTIONS[option];
+            return (
+              <button
+                key={option}
+                onClick={() => onProfileChange(option)}
+                className={`flex items-center px-3 py-1 text-sm rounded-full transition-colors ${
+                  option === profile
+                    ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white'
+                }`}
+                title={label}
+              >
+                <Icon size={16} className="mr-1" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+        <a
+          href={externalDirectionsUrl({ latitude: destination.lat, longitude: destination.lon }, profile)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Google Maps
+          <ExternalLink size={14} className="ml-1" />
+        </a>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          Finding a route…
+        </div>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {route && !isLoading && (
+        <>
+          <div className="text-gray-800 dark:text-white">
+            <span className="text-lg font-semibold">{formatDuration(route.duration)}</span>
+            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">{formatRouteDistance(route.distance)}</span>
+          </div>
+          <ol className="divide-y dark:divide-gray-700">
+            {route.steps.map((step, index) => (
+              <li key={index} className="flex justify-between py-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-200">{step.instruction}</span>
+                {step.distance > 0 && (
+                  <span className="ml-4 shrink-0 text-gray-400">{formatRouteDistance(step.distance)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Circle, Pentagon, ScanSearch, Trash2 } from 'lucide-react';
+import type { DrawMode } from '../hooks/useDrawTool';
+
+interface DrawToolbarProps {
+  mode: DrawMode;
+  hasConstraint: boolean;
+  onStart: (mode: DrawMode) => void;
+  onCancel: () => void;
+  onSearchArea: () => void;
+  onClear: () => void;
+}
+
+const buttonClass = 'p-2 rounded-md transition-colors';
+const idleClass = 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700';
+const activeClass = 'bg-blue-500 text-white';
+
+export default function DrawToolbar({ mode, hasConstraint, onStart, onCancel, onSearchArea, onClear }: DrawToolbarProps) {
+  const toggle = (next: DrawMode) => (mode === next ? onCancel() : onStart(next));
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-1">
+      <button
+        onClick={() => toggle('circle')}
+        className={`${buttonClass} ${mode === 'circle' ? activeClass : idleClass}`}
+        title="Draw a circle: click the centre, then the edge"
+      >
+        <Circle size={18} />
+      </button>
+      <button
+        onClick={() => toggle('polygon')}
+        className={`${buttonClass} ${mode === 'polygon' ? activeClass : idleClass}`}
+        title="Draw a polygon: click each corner, double-click to finish"
+      >
+        <Pentagon size={18} />
+      </button>
+      <button
+        onClick={onSearchArea}
+        className={`${buttonClass} ${idleClass} flex items-center text-sm`}
+        title="Search the visible map area"
+      >
+        <ScanSearch size={18} className="mr-1" />
+        Search this area
+      </button>
+      {hasConstraint && (
+        <button
+          onClick={onClear}
+          className={`${buttonClass} text-gray-600 dark:text-gray-300 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700`}
+          title="Remove the drawn search area"
+        >
+          <Trash2 size={18} />
+        </button>
+      )}
+    </div>
+  );
+}
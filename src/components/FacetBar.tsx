@@ -0,0 +1,51 @@
+import { X } from 'lucide-react';
+import { formatFacetValue } from '../services/facets';
+import type { Facet, FacetSelection } from '../services/facets';
+
+interface FacetBarProps {
+  facets: Facet[];
+  selection: FacetSelection;
+  onToggle: (key: string, value: string) => void;
+  onClear: () => void;
+}
+
+export default function FacetBar({ facets, selection, onToggle, onClear }: FacetBarProps) {
+  if (!facets.length) return null;
+  const hasSelection = Object.values(selection).some(values => values.length > 0);
+
+  return (
+    <div className="space-y-1 text-xs" aria-label="Filters">
+      {facets.map(facet => (
+        <div key={facet.key} className="flex items-center gap-1 overflow-x-auto whitespace-nowrap">
+          <span className="mr-1 text-gray-500 dark:text-gray-400">{facet.label}</span>
+          {facet.values.map(({ value, count }) => {
+            const isSelected = selection[facet.key]?.includes(value) ?? false;
+            return (
+              <button
+                key={value}
+                onClick={() => onToggle(facet.key, value)}
+                className={`px-2 py-0.5 rounded-full transition-colors ${
+                  isSelected
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                aria-pressed={isSelected}
+              >
+                {formatFacetValue(value)} ({count})
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      {hasSelection && (
+        <button
+          onClick={onClear}
+          className="flex items-center text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <X size={12} className="mr-1" />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useRef } from 'react';
+import { Eye, EyeOff, Layers, Plus, X } from 'lucide-react';
+import type { UserLayer } from '../services/layers';
+
+interface LayerPanelProps {
+  layers: UserLayer[];
+  error: string | null;
+  onAddFiles: (files: FileList) => void;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export default function LayerPanel({ layers, error, onAddFiles, onToggle, onRemove }: LayerPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b dark:border-gray-700">
+        <div className="flex items-center text-gray-800 dark:text-white font-medium">
+          <Layers size={16} className="mr-2" />
+          My layers
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="p-1 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          title="Load GeoJSON or CSV"
+        >
+          <Plus size={16} />
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".geojson,.json,.csv"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onAddFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {layers.length === 0 ? (
+        <p className="px-3 py-2 text-gray-500 dark:text-gray-400">
+          Drop GeoJSON or CSV files on the map to search them
+        </p>
+      ) : (
+        <ul className="py-1">
+          {layers.map(layer => (
+            <li key={layer.id} className="flex items-center px-3 py-1">
+              <span className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: layer.color }} />
+              <span className="flex-1 truncate text-gray-700 dark:text-gray-200" title={layer.name}>
+                {layer.name}
+              </span>
+              <span className="text-xs text-gray-400 mx-2">{layer.features.length}</span>
+              <button
+                onClick={() => onToggle(layer.id)}
+                className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+              </button>
+              <button
+                onClick={() => onRemove(layer.id)}
+                className="p-1 text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400"
+                title="Remove layer"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p className="px-3 py-2 text-red-500 border-t dark:border-gray-700">{error}</p>
+      )}
+    </div>
+  );
+}
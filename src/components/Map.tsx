@@ -1,28 +1,191 @@
-import React, { useState, useEffect } from 'react';
-import Map, { Marker, NavigationControl, GeolocateControl } from 'react-map-gl/maplibre';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Map, { Marker, NavigationControl, GeolocateControl, Source, Layer, Popup } from 'react-map-gl/maplibre';
 import { MapPin } from 'lucide-react';
+import type { MapLayerMouseEvent, MapLayerTouchEvent, MapRef } from 'react-map-gl/maplibre';
+import type { GeoJSONSource } from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
+import { API_URL } from '../services/api';
+import { layerToGeoJson } from '../services/layers';
+import { categoryOf } from '../services/categories';
+import { constraintToRing } from '../services/spatial';
+import { DENSITY_COLORS, densityBreaks, hexBins } from '../services/density';
+import { categoryIconId, loadCategoryIcons } from './mapIcons';
+import DrawToolbar from './DrawToolbar';
+import DensityLegend from './DensityLegend';
+import { useDrawTool } from '../hooks/useDrawTool';
+import type { Location } from '../services/search';
+import type { UserLayer } from '../services/layers';
+import type { BoundingBox, LatLon, SearchConstraint } from '../services/spatial';
+import type { DensityStyle } from '../services/density';
+import type { DensityState } from '../hooks/useDensity';
+import type { Route } from '../services/routing';
+import type { Anchor, Coordinates, Corridor, Ring } from '../services/parsedQuery';
+import type { MapViewport } from '../services/searchLink';
 
-interface Location {
-  lat: number;
-  lon: number;
-  display_name: string;
-}
+// MapTiler through the proxy, which adds the key; MapLibre needs an absolute URL
+const MAP_STYLE_URL = new URL(`${API_URL}/tiles/maps/streets/style.json`, window.location.href).href;
+const RESULTS_SOURCE = 'results';
+const RESULT_LAYERS = ['results-halo', 'results-points'];
+// Clusters break apart before the zoom-14 fly-to used for a selected result
+const CLUSTER_MAX_ZOOM = 13;
+const LONG_PRESS_MS = 500;
+// Metres per pixel at zoom 0 on the equator, for 512 px tiles
+const METERS_PER_PIXEL_Z0 = 40075016.686 / 512;
 
 interface MapViewProps {
   locations: Location[];
   selectedLocation: number | null;
   onLocationSelect: (index: number) => void;
+  layers?: UserLayer[];
+  constraint?: SearchConstraint | null;
+  onConstraintChange?: (constraint: SearchConstraint | null) => void;
+  onSearchArea?: (constraint: SearchConstraint) => void;
+  route?: Route | null;
+  // Isochrone of a travel-time query, or the area searched between meeting anchors
+  travelArea?: Ring | null;
+  // Places a meeting search is fair to
+  anchors?: Anchor[] | null;
+  // Places counted for density analysis, drawn as a heatmap or hexagon bins
+  density?: DensityState | null;
+  densityStyle?: DensityStyle;
+  onDensityStyleChange?: (style: DensityStyle) => void;
+  // The visible area once the map loads and after every move
+  onBoundsChange?: (bounds: BoundingBox) => void;
+  // Road and buffer of a search along a route
+  corridor?: Corridor | null;
+  // Moves the map whenever a new viewport is passed, e.g. one restored from a link
+  view?: MapViewport | null;
+  onViewChange?: (view: MapViewport) => void;
+  // A click or long-press on the map away from any result
+  onPointSelect?: (point: Coordinates) => void;
+  pickedPoint?: Coordinates | null;
 }
 
-export default function MapView({ locations, selectedLocation, onLocationSelect }: MapViewProps) {
+export default function MapView({
+  locations,
+  selectedLocation,
+  onLocationSelect,
+  layers = [],
+  constraint = null,
+  onConstraintChange,
+  onSearchArea,
+  route = null,
+  travelArea = null,
+  corridor = null,
+  anchors = null,
+  density = null,
+  densityStyle = 'hexbin',
+  onDensityStyleChange,
+  onBoundsChange,
+  view = null,
+  onViewChange,
+  onPointSelect,
+  pickedPoint = null
+}: MapViewProps) {
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
-  const [viewState, setViewState] = useState({
+  const [viewState, setViewState] = useState(view ?? {
     latitude: 22.5074, // Default to center of India
     longitude: 82.1278,
     zoom: 4
   });
+  // A view opened from a link wins over centring on the user
+  const hasInitialView = useRef(view !== null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [hoveredLocation, setHoveredLocation] = useState<number | null>(null);
+  const mapRef = useRef<MapRef>(null);
+  const longPress = useRef<{ timer?: ReturnType<typeof setTimeout>; firedAt: number }>({ firedAt: 0 });
+  const drawTool = useDrawTool(drawn => onConstraintChange?.(drawn));
+
+  const visibleLayers = useMemo(
+    () => layers.filter(layer => layer.visible).map(layer => ({ layer, data: layerToGeoJson(layer) })),
+    [layers]
+  );
+
+  const resultsData = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point>>(() => ({
+    type: 'FeatureCollection',
+    features: locations.map((location, index) => ({
+      type: 'Feature',
+      id: index,
+      geometry: { type: 'Point', coordinates: [location.lon, location.lat] },
+      properties: { index, icon: categoryIconId(categoryOf(location)) }
+    }))
+  }), [locations]);
+
+  const constraintData = useMemo<GeoJSON.Feature<GeoJSON.Polygon> | null>(() => constraint && {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [constraintToRing(constraint)] },
+    properties: {}
+  }, [constraint]);
+
+  const travelAreaData = useMemo<GeoJSON.Feature<GeoJSON.Polygon> | null>(() => travelArea && {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [travelArea] },
+    properties: {}
+  }, [travelArea]);
+
+  const corridorData = useMemo<GeoJSON.Feature<GeoJSON.LineString> | null>(() => corridor && {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: corridor.line },
+    properties: {}
+  }, [corridor]);
+
+  // Line widths are in pixels, so the buffer's metres are scaled per zoom; doubling each level keeps it exact
+  const corridorWidth = useMemo(() => {
+    if (!corridor) return 0;
+    const lats = corridor.line.map(([, lat]) => lat);
+    const latitude = (Math.min(...lats) + Math.max(...lats)) / 2;
+    return (2 * corridor.width) / (METERS_PER_PIXEL_Z0 * Math.cos(latitude * Math.PI / 180));
+  }, [corridor]);
+
+  const densityPoints = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point> | null>(() => density && {
+    type: 'FeatureCollection',
+    features: density.points.map(({ lat, lon }) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [lon, lat] },
+      properties: {}
+    }))
+  }, [density]);
+
+  // Bins are rebuilt per whole zoom level so they keep their size on screen
+  const binZoom = Math.floor(viewState.zoom);
+  const densityBins = useMemo(
+    () => density && densityStyle === 'hexbin' ? hexBins(density.points, binZoom) : null,
+    [density, densityStyle, binZoom]
+  );
+  const binBreaks = useMemo(
+    () => densityBreaks(Math.max(0, ...(densityBins?.features.map(feature => feature.properties.count) ?? []))),
+    [densityBins]
+  );
+
+  const routeData = useMemo<GeoJSON.Feature<GeoJSON.LineString> | null>(() => route && {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: route.geometry },
+    properties: {}
+  }, [route]);
+
+  const draftData: GeoJSON.Feature<GeoJSON.LineString> | null = drawTool.draft && {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: drawTool.draft },
+    properties: {}
+  };
+
+  const clusterLayerIds = useMemo(
+    () => [RESULTS_SOURCE, ...visibleLayers.map(({ layer }) => layer.id)].map(id => `${id}-clusters`),
+    [visibleLayers]
+  );
+
+  // Selection and hover live in feature state so restyling never rebuilds the source
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !map.getSource(RESULTS_SOURCE)) return;
+    map.removeFeatureState({ source: RESULTS_SOURCE });
+    if (selectedLocation !== null) {
+      map.setFeatureState({ source: RESULTS_SOURCE, id: selectedLocation }, { selected: true });
+    }
+    if (hoveredLocation !== null) {
+      map.setFeatureState({ source: RESULTS_SOURCE, id: hoveredLocation }, { hover: true });
+    }
+  }, [selectedLocation, hoveredLocation, resultsData]);
 
   useEffect(() => {
     if (isInitialLoad) {
@@ -30,11 +193,13 @@ export default function MapView({ locations, selectedLocation, onLocationSelect
         (position) => {
           const { latitude, longitude } = position.coords;
           setUserLocation({ latitude, longitude });
-          setViewState({
-            latitude,
-            longitude,
-            zoom: 13 // Slightly reduced zoom level for better context
-          });
+          if (!hasInitialView.current) {
+            setViewState({
+              latitude,
+              longitude,
+              zoom: 13 // Slightly reduced zoom level for better context
+            });
+          }
           setIsInitialLoad(false);
         },
         (error) => {
@@ -86,8 +251,47 @@ export default function MapView({ locations, selectedLocation, onLocationSelect
     }
   }, [locations, selectedLocation, isInitialLoad]);
 
+  // Frame the whole route once it arrives
+  useEffect(() => {
+    if (!route || route.geometry.length < 2) return;
+    const bounds = getBounds(route.geometry.map(([lon, lat]) => ({ lat, lon })));
+    setViewState({
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+      zoom: calculateZoomLevel(bounds)
+    });
+  }, [route]);
+
+  // A search along a route shows the whole trip, not just where the results bunch up
+  useEffect(() => {
+    if (!corridor) return;
+    const bounds = getBounds(corridor.line.map(([lon, lat]) => ({ lat, lon })));
+    setViewState({
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+      zoom: calculateZoomLevel(bounds)
+    });
+  }, [corridor]);
+
+  // Everyone's starting point stays in view, not just the results in the middle
+  useEffect(() => {
+    const points = anchors?.flatMap(({ coordinates }) => coordinates ? [{ lat: coordinates.latitude, lon: coordinates.longitude }] : []);
+    if (!points || points.length < 2) return;
+    const bounds = getBounds(points);
+    setViewState({
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+      zoom: calculateZoomLevel(bounds)
+    });
+  }, [anchors]);
+
+  // Declared after the fitting effects so a restored view overrides them, including the fit once location lookup settles
+  useEffect(() => {
+    if (view) setViewState(view);
+  }, [view, isInitialLoad]);
+
   // Helper function to calculate bounds for a set of locations
-  const getBounds = (locs: Location[]) => {
+  const getBounds = (locs: LatLon[]) => {
     let north = -90, south = 90, east = -180, west = 180;
     locs.forEach(loc => {
       north = Math.max(north, loc.lat);
@@ -106,13 +310,110 @@ export default function MapView({ locations, selectedLocation, onLocationSelect
     return Math.round(14 - Math.log2(maxDiff * 10)); // Adjust multiplier for desired zoom level
   };
 
+  const handleClick = (event: MapLayerMouseEvent) => {
+    if (drawTool.mode !== 'idle') {
+      drawTool.handleClick({ latitude: event.lngLat.lat, longitude: event.lngLat.lng });
+      return;
+    }
+
+    const feature = event.features?.[0];
+    if (!feature) {
+      // The click that ends a long-press has already been handled
+      if (Date.now() - longPress.current.firedAt > LONG_PRESS_MS) {
+        onPointSelect?.({ latitude: event.lngLat.lat, longitude: event.lngLat.lng });
+      }
+      return;
+    }
+
+    if (feature.layer.id.endsWith('-clusters')) {
+      const source = mapRef.current?.getSource(feature.source) as GeoJSONSource | undefined;
+      const [longitude, latitude] = (feature.geometry as GeoJSON.Point).coordinates;
+      source?.getClusterExpansionZoom(feature.properties?.cluster_id, (error, zoom) => {
+        if (error || zoom === null || zoom === undefined) return;
+        mapRef.current?.easeTo({ center: [longitude, latitude], zoom });
+      });
+      return;
+    }
+
+    if (RESULT_LAYERS.includes(feature.layer.id)) {
+      onLocationSelect(feature.properties?.index);
+    }
+  };
+
+  const handleMouseMove = (event: MapLayerMouseEvent) => {
+    drawTool.handleMove({ latitude: event.lngLat.lat, longitude: event.lngLat.lng });
+    const feature = event.features?.find(candidate => RESULT_LAYERS.includes(candidate.layer.id));
+    setHoveredLocation(feature ? feature.properties?.index : null);
+  };
+
+  const handleTouchStart = (event: MapLayerTouchEvent) => {
+    clearTimeout(longPress.current.timer);
+    if (drawTool.mode !== 'idle' || event.points.length !== 1) return;
+    const point = { latitude: event.lngLat.lat, longitude: event.lngLat.lng };
+    longPress.current.timer = setTimeout(() => {
+      longPress.current.firedAt = Date.now();
+      onPointSelect?.(point);
+    }, LONG_PRESS_MS);
+  };
+
+  const cancelLongPress = () => clearTimeout(longPress.current.timer);
+
+  const reportBounds = () => {
+    const bounds = mapRef.current?.getBounds();
+    if (bounds) onBoundsChange?.([bounds.getSouth(), bounds.getWest(), bounds.getNorth(), bounds.getEast()]);
+  };
+
+  const handleSearchArea = () => {
+    const bounds = mapRef.current?.getBounds();
+    if (!bounds) return;
+    const viewport: SearchConstraint = {
+      type: 'polygon',
+      polygon: [
+        [bounds.getWest(), bounds.getSouth()],
+        [bounds.getEast(), bounds.getSouth()],
+        [bounds.getEast(), bounds.getNorth()],
+        [bounds.getWest(), bounds.getNorth()],
+        [bounds.getWest(), bounds.getSouth()]
+      ]
+    };
+    drawTool.cancel();
+    onConstraintChange?.(viewport);
+    onSearchArea?.(viewport);
+  };
+
+  const hovered = hoveredLocation !== null ? locations[hoveredLocation] : undefined;
+
   return (
     <div className="relative h-full">
       <Map
         {...viewState}
+        ref={mapRef}
         onMove={evt => setViewState(evt.viewState)}
+        onMoveEnd={evt => {
+          onViewChange?.({
+            latitude: evt.viewState.latitude,
+            longitude: evt.viewState.longitude,
+            zoom: evt.viewState.zoom
+          });
+          reportBounds();
+        }}
+        onLoad={evt => {
+          loadCategoryIcons(evt.target);
+          reportBounds();
+        }}
+        interactiveLayerIds={[...clusterLayerIds, ...RESULT_LAYERS]}
+        onClick={handleClick}
+        onDblClick={drawTool.handleDoubleClick}
+        doubleClickZoom={drawTool.mode === 'idle'}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoveredLocation(null)}
+        onTouchStart={handleTouchStart}
+        onTouchMove={cancelLongPress}
+        onTouchEnd={cancelLongPress}
+        onTouchCancel={cancelLongPress}
+        cursor={drawTool.mode !== 'idle' ? 'crosshair' : hoveredLocation !== null ? 'pointer' : 'grab'}
         style={{ width: '100%', height: '100%' }}
-        mapStyle={`https://api.maptiler.com/maps/streets/style.json?key=${import.meta.env.VITE_MAPTILER_KEY}`}
+        mapStyle={MAP_STYLE_URL}
       >
         <NavigationControl position="top-right" />
         <GeolocateControl
@@ -126,30 +427,251 @@ export default function MapView({ locations, selectedLocation, onLocationSelect
             });
           }}
         />
-        
-        {locations.map((location, index) => (
-          <Marker
-            key={index}
-            latitude={location.lat}
-            longitude={location.lon}
+
+        {constraintData && (
+          <Source id="search-constraint" type="geojson" data={constraintData}>
+            <Layer
+              id="search-constraint-fill"
+              type="fill"
+              paint={{ 'fill-color': '#3b82f6', 'fill-opacity': 0.08 }}
+            />
+            <Layer
+              id="search-constraint-outline"
+              type="line"
+              paint={{ 'line-color': '#3b82f6', 'line-width': 2 }}
+            />
+          </Source>
+        )}
+
+        {travelAreaData && (
+          <Source id="travel-area" type="geojson" data={travelAreaData}>
+            <Layer
+              id="travel-area-fill"
+              type="fill"
+              paint={{ 'fill-color': '#10b981', 'fill-opacity': 0.12 }}
+            />
+            <Layer
+              id="travel-area-outline"
+              type="line"
+              paint={{ 'line-color': '#10b981', 'line-width': 2 }}
+            />
+          </Source>
+        )}
+
+        {corridorData && (
+          <Source id="corridor" type="geojson" data={corridorData}>
+            <Layer
+              id="corridor-buffer"
+              type="line"
+              layout={{ 'line-join': 'round', 'line-cap': 'round' }}
+              paint={{
+                'line-color': '#10b981',
+                'line-opacity': 0.15,
+                'line-width': ['interpolate', ['exponential', 2], ['zoom'], 0, corridorWidth, 22, corridorWidth * 2 ** 22]
+              }}
+            />
+            <Layer
+              id="corridor-route"
+              type="line"
+              layout={{ 'line-join': 'round', 'line-cap': 'round' }}
+              paint={{ 'line-color': '#10b981', 'line-width': 3 }}
+            />
+          </Source>
+        )}
+
+        {draftData && (
+          <Source id="draw-draft" type="geojson" data={draftData}>
+            <Layer
+              id="draw-draft-line"
+              type="line"
+              paint={{ 'line-color': '#3b82f6', 'line-width': 2, 'line-dasharray': [2, 2] }}
+            />
+          </Source>
+        )}
+
+        {routeData && (
+          <Source id="route" type="geojson" data={routeData}>
+            <Layer
+              id="route-casing"
+              type="line"
+              layout={{ 'line-join': 'round', 'line-cap': 'round' }}
+              paint={{ 'line-color': '#ffffff', 'line-width': 8 }}
+            />
+            <Layer
+              id="route-line"
+              type="line"
+              layout={{ 'line-join': 'round', 'line-cap': 'round' }}
+              paint={{ 'line-color': '#2563eb', 'line-width': 5 }}
+            />
+          </Source>
+        )}
+
+        {visibleLayers.map(({ layer, data }) => (
+          <Source
+            key={layer.id}
+            id={layer.id}
+            type="geojson"
+            data={data}
+            cluster
+            clusterMaxZoom={CLUSTER_MAX_ZOOM}
+          >
+            <Layer
+              id={`${layer.id}-clusters`}
+              type="circle"
+              filter={['has', 'point_count']}
+              paint={{
+                'circle-color': layer.color,
+                'circle-opacity': 0.75,
+                'circle-radius': ['step', ['get', 'point_count'], 12, 25, 16, 100, 22],
+                'circle-stroke-width': 2,
+                'circle-stroke-color': '#ffffff'
+              }}
+            />
+            <Layer
+              id={`${layer.id}-cluster-count`}
+              type="symbol"
+              filter={['has', 'point_count']}
+              layout={{ 'text-field': '{point_count_abbreviated}', 'text-size': 12, 'text-font': ['Noto Sans Regular'] }}
+              paint={{ 'text-color': '#ffffff' }}
+            />
+            <Layer
+              id={`${layer.id}-points`}
+              type="circle"
+              filter={['!', ['has', 'point_count']]}
+              paint={{
+                'circle-radius': 5,
+                'circle-color': layer.color,
+                'circle-stroke-width': 1,
+                'circle-stroke-color': '#ffffff'
+              }}
+            />
+          </Source>
+        ))}
+
+        {densityPoints && densityStyle === 'heatmap' && (
+          <Source id="density-points" type="geojson" data={densityPoints}>
+            <Layer
+              id="density-heatmap"
+              type="heatmap"
+              paint={{
+                'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 8, 12, 16, 30],
+                'heatmap-opacity': 0.8,
+                'heatmap-color': [
+                  'interpolate', ['linear'], ['heatmap-density'],
+                  0, 'rgba(0, 0, 0, 0)',
+                  ...DENSITY_COLORS.flatMap((color, index) => [(index + 1) / DENSITY_COLORS.length, color])
+                ]
+              }}
+            />
+          </Source>
+        )}
+
+        {densityBins && (
+          <Source id="density-bins" type="geojson" data={densityBins}>
+            <Layer
+              id="density-bins-fill"
+              type="fill"
+              paint={{
+                // A step needs at least one break; when every bin holds the same count there is none
+                'fill-color': binBreaks.length > 1
+                  ? ['step', ['get', 'count'], DENSITY_COLORS[0], ...binBreaks.slice(1).flatMap((value, index) => [value, DENSITY_COLORS[index + 1]])]
+                  : DENSITY_COLORS[0],
+                'fill-opacity': 0.7,
+                'fill-outline-color': '#ffffff'
+              }}
+            />
+            <Layer
+              id="density-bins-count"
+              type="symbol"
+              layout={{ 'text-field': ['to-string', ['get', 'count']], 'text-size': 11, 'text-font': ['Noto Sans Regular'] }}
+              paint={{ 'text-color': '#1f2937', 'text-halo-color': '#ffffff', 'text-halo-width': 1 }}
+            />
+          </Source>
+        )}
+
+        <Source
+          id={RESULTS_SOURCE}
+          type="geojson"
+          data={resultsData}
+          cluster
+          clusterMaxZoom={CLUSTER_MAX_ZOOM}
+          clusterRadius={40}
+        >
+          <Layer
+            id={`${RESULTS_SOURCE}-clusters`}
+            type="circle"
+            filter={['has', 'point_count']}
+            paint={{
+              'circle-color': '#3b82f6',
+              'circle-radius': ['step', ['get', 'point_count'], 16, 10, 20, 50, 26],
+              'circle-stroke-width': 3,
+              'circle-stroke-color': '#ffffff'
+            }}
+          />
+          <Layer
+            id={`${RESULTS_SOURCE}-cluster-count`}
+            type="symbol"
+            filter={['has', 'point_count']}
+            layout={{ 'text-field': '{point_count_abbreviated}', 'text-size': 13, 'text-font': ['Noto Sans Regular'] }}
+            paint={{ 'text-color': '#ffffff' }}
+          />
+          <Layer
+            id="results-halo"
+            type="circle"
+            filter={['!', ['has', 'point_count']]}
+            paint={{
+              'circle-radius': [
+                'case',
+                ['boolean', ['feature-state', 'selected'], false], 22,
+                ['boolean', ['feature-state', 'hover'], false], 18,
+                0
+              ],
+              'circle-color': [
+                'case',
+                ['boolean', ['feature-state', 'selected'], false], '#ef4444',
+                '#3b82f6'
+              ],
+              'circle-opacity': 0.3
+            }}
+          />
+          <Layer
+            id="results-points"
+            type="symbol"
+            filter={['!', ['has', 'point_count']]}
+            layout={{
+              'icon-image': ['get', 'icon'],
+              'icon-allow-overlap': true,
+              'icon-ignore-placement': true
+            }}
+          />
+        </Source>
+
+        {hovered && (
+          <Popup
+            latitude={hovered.lat}
+            longitude={hovered.lon}
             anchor="bottom"
-            onClick={() => onLocationSelect(index)}
+            offset={16}
+            closeButton={false}
+            closeOnClick={false}
           >
-            <div className="relative group">
-              <div className={`transition-all duration-300 ${selectedLocation === index ? 'animate-bounce' : ''}`}>
-                <MapPin 
-                  className={`w-8 h-8 transition-colors ${
-                    selectedLocation === index 
-                      ? 'text-red-500 scale-110' 
-                      : 'text-blue-500 hover:text-blue-600'
-                  }`} 
-                />
-              </div>
-              <div className="absolute bottom-full mb-2 hidden group-hover:block z-10">
-                <div className="bg-white dark:bg-gray-800 px-3 py-1 rounded-lg shadow-lg text-sm max-w-xs text-gray-800 dark:text-white">
-                  {location.display_name}
-                </div>
+            <div className="text-sm max-w-xs text-gray-800">{hovered.display_name}</div>
+          </Popup>
+        )}
+
+        {pickedPoint && (
+          <Marker latitude={pickedPoint.latitude} longitude={pickedPoint.longitude} anchor="bottom">
+            <MapPin size={32} className="text-red-500 drop-shadow" fill="currentColor" stroke="white" />
+          </Marker>
+        )}
+
+        {anchors?.map(({ place, coordinates }, index) => coordinates && (
+          <Marker key={index} latitude={coordinates.latitude} longitude={coordinates.longitude} anchor="bottom">
+            <div className="flex flex-col items-center">
+              <div className="bg-white dark:bg-gray-800 px-2 py-0.5 rounded shadow text-xs whitespace-nowrap text-gray-800 dark:text-white capitalize">
+                {place}
               </div>
+              <MapPin size={28} className="text-emerald-600 drop-shadow" fill="currentColor" stroke="white" />
             </div>
           </Marker>
         ))}
@@ -173,6 +695,26 @@ export default function MapView({ locations, selectedLocation, onLocationSelect
           </Marker>
         )}
       </Map>
+
+      {density && (
+        <DensityLegend
+          style={densityStyle}
+          onStyleChange={style => onDensityStyleChange?.(style)}
+          breaks={binBreaks}
+          total={density.points.length}
+          truncated={density.truncated}
+          isLoading={density.isLoading}
+        />
+      )}
+
+      <DrawToolbar
+        mode={drawTool.mode}
+        hasConstraint={constraint !== null}
+        onStart={drawTool.start}
+        onCancel={drawTool.cancel}
+        onSearchArea={handleSearchArea}
+        onClear={() => onConstraintChange?.(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { Accessibility, Clock, ExternalLink, Globe, Loader2, Mail, MapPin, Navigation, Phone, Utensils } from 'lucide-react';
+import { openingStatus } from '../services/openingHours';
+import type { ReactNode } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { PlaceDetails } from '../services/placeDetails';
+import type { Location } from '../services/search';
+
+const WHEELCHAIR_LABELS: Record<string, string> = {
+  yes: 'Wheelchair accessible',
+  limited: 'Limited wheelchair access',
+  no: 'Not wheelchair accessible',
+  designated: 'Designed for wheelchair users'
+};
+
+interface PlaceDetailsPanelProps {
+  location: Location;
+  details: PlaceDetails | null;
+  isLoading: boolean;
+  error: string | null;
+  onNavigate: (location: Location) => void;
+}
+
+function Row({ icon: Icon, children }: { icon: LucideIcon; children: ReactNode }) {
+  return (
+    <div className="flex items-start py-1">
+      <Icon size={16} className="mr-3 mt-0.5 shrink-0 text-gray-400" />
+      <div className="min-w-0 text-gray-700 dark:text-gray-200">{children}</div>
+    </div>
+  );
+}
+
+export default function PlaceDetailsPanel({ location, details, isLoading, error, onNavigate }: PlaceDetailsPanelProps) {
+  const status = details?.openingHours
+    ? openingStatus({ ...location, tags: { ...location.tags, opening_hours: details.openingHours } })
+    : null;
+
+  return (
+    <div className="px-4 py-2 space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onNavigate(location)}
+          className="flex items-center px-3 py-1 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 bg-blue-50 dark:bg-blue-900/20 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+        >
+          <Navigation size={14} className="mr-1" />
+          Directions
+        </button>
+        {details?.osmUrl && (
+          <a
+            href={details.osmUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center px-3 py-1 text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            View on OpenStreetMap
+            <ExternalLink size={14} className="ml-1" />
+          </a>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center text-gray-500 dark:text-gray-400">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          Loading details…
+        </div>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+
+      {details && (
+        <div className="divide-y dark:divide-gray-700">
+          <div className="pb-2">
+            {details.address.length > 0 && (
+              <Row icon={MapPin}>
+                {details.address.map(line => <div key={line}>{line}</div>)}
+              </Row>
+            )}
+            {details.openingHours && (
+              <Row icon={Clock}>
+                {status && (
+                  <div className={status.open ? 'text-green-600 dark:text-green-400' : 'text-red-500 dark:text-red-400'}>
+                    {status.label}
+                  </div>
+                )}
+                <div className="text-gray-500 dark:text-gray-400 break-words">{details.openingHours}</div>
+              </Row>
+            )}
+            {details.phone && (
+              <Row icon={Phone}>
+                <a href={`tel:${details.phone.replace(/\s+/g, '')}`} className="text-blue-500 dark:text-blue-400 hover:underline">
+                  {details.phone}
+                </a>
+              </Row>
+            )}
+            {details.website && (
+              <Row icon={Globe}>
+                <a
+                  href={/^https?:\/\//.test(details.website) ? details.website : `https://${details.website}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-blue-500 dark:text-blue-400 hover:underline"
+                >
+                  {details.website.replace(/^https?:\/\/(www\.)?/, '')}
+                </a>
+              </Row>
+            )}
+            {details.email && (
+              <Row icon={Mail}>
+                <a href={`mailto:${details.email}`} className="text-blue-500 dark:text-blue-400 hover:underline">
+                  {details.email}
+                </a>
+              </Row>
+            )}
+            {details.cuisine.length > 0 && (
+              <Row icon={Utensils}>
+                <span className="capitalize">{details.cuisine.join(', ')}</span>
+              </Row>
+            )}
+            {details.wheelchair && (
+              <Row icon={Accessibility}>{WHEELCHAIR_LABELS[details.wheelchair] ?? `Wheelchair: ${details.wheelchair}`}</Row>
+            )}
+          </div>
+          {details.otherTags.length > 0 && (
+            <dl className="pt-2 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+              {details.otherTags.map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="text-gray-500 dark:text-gray-400">{key}</dt>
+                  <dd className="text-gray-700 dark:text-gray-200 break-words">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { RankingExplanation } from '../services/ranking';
+
+interface RankingDetailsProps {
+  ranking: RankingExplanation;
+}
+
+export default function RankingDetails({ ranking }: RankingDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className="flex items-center text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        Why #{ranking.rank}?
+        <ChevronDown className={`w-3 h-3 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-1">
+          {ranking.signals.map(signal => (
+            <li key={signal.id} className="flex items-center">
+              <span className="w-28 shrink-0 text-gray-600 dark:text-gray-300">{signal.label}</span>
+              <div className="w-16 h-1.5 mr-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${Math.round(signal.value * 100)}%` }} />
+              </div>
+              <span className="text-gray-500 dark:text-gray-400 truncate" title={signal.reason}>
+                {signal.reason}
+              </span>
+            </li>
+          ))}
+          <li className="text-gray-400">Score {ranking.score.toFixed(2)}</li>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { ChevronRight } from 'lucide-react';
+
+interface RefinementTrailProps {
+  queries: string[];
+  onSelect: (index: number) => void;
+}
+
+export default function RefinementTrail({ queries, onSelect }: RefinementTrailProps) {
+  if (queries.length < 2) return null;
+
+  return (
+    <nav className="flex flex-wrap items-center gap-1 text-sm" aria-label="Refinements">
+      {queries.map((query, index) => {
+        const isCurrent = index === queries.length - 1;
+        return (
+          <span key={index} className="flex items-center">
+            {index > 0 && <ChevronRight size={14} className="mr-1 text-gray-400" />}
+            <button
+              onClick={() => onSelect(index)}
+              disabled={isCurrent}
+              className={`px-2 py-0.5 rounded-full transition-colors ${
+                isCurrent
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              title={isCurrent ? 'Current search' : 'Go back to this step'}
+            >
+              {query}
+            </button>
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
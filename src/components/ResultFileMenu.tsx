@@ -0,0 +1,63 @@
+import { useRef, useState } from 'react';
+import { Download, FolderOpen } from 'lucide-react';
+import { RESULT_FORMATS } from '../services/resultFiles';
+import type { ResultFormat } from '../services/resultFiles';
+
+interface ResultFileMenuProps {
+  canExport: boolean;
+  onExport: (format: ResultFormat) => void;
+  onImport: (file: File) => void;
+}
+
+export default function ResultFileMenu({ canExport, onExport, onImport }: ResultFileMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canExport}
+        className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+        title="Export results"
+      >
+        <Download size={16} />
+      </button>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        title="Open a saved result set"
+      >
+        <FolderOpen size={16} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".geojson,.json,.kml,.gpx,.csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+      {isOpen && (
+        <ul className="absolute right-0 top-full mt-1 z-10 w-40 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700">
+          {RESULT_FORMATS.map(({ format, label }) => (
+            <li key={format}>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  onExport(format);
+                }}
+                className="w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
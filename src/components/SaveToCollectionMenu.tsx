@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Check, Plus, Star } from 'lucide-react';
+import { placeId } from '../services/collections';
+import type { Collection } from '../services/collections';
+import type { Location } from '../services/search';
+
+interface SaveToCollectionMenuProps {
+  location: Location;
+  collections: Collection[];
+  onToggle: (collectionId: string) => void;
+  onCreate: (name: string) => void;
+}
+
+export default function SaveToCollectionMenu({ location, collections, onToggle, onCreate }: SaveToCollectionMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const key = placeId(location);
+  const savedIn = new Set(collections.filter(collection => collection.places.some(place => place.id === key)).map(collection => collection.id));
+
+  const create = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-full transition-colors ${
+          savedIn.size > 0
+            ? 'text-yellow-500 bg-yellow-50 dark:bg-yellow-900/20 hover:bg-yellow-100 dark:hover:bg-yellow-900/40'
+            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+        title="Save to a collection"
+      >
+        <Star size={20} fill={savedIn.size > 0 ? 'currentColor' : 'none'} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-10 w-56 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 text-sm">
+          {collections.map(collection => (
+            <button
+              key={collection.id}
+              onClick={() => onToggle(collection.id)}
+              className="w-full flex items-center px-3 py-1.5 text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: collection.color }} />
+              <span className="flex-1 truncate">{collection.name}</span>
+              {savedIn.has(collection.id) && <Check size={14} className="ml-2 text-blue-500" />}
+            </button>
+          ))}
+          <div className="flex items-center px-2 pt-1 mt-1 border-t dark:border-gray-700">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              placeholder="New collection"
+              className="flex-1 min-w-0 px-1 py-1 bg-transparent text-gray-700 dark:text-gray-200 placeholder-gray-400 focus:outline-none"
+            />
+            <button
+              onClick={create}
+              disabled={!name.trim()}
+              className="p-1 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+              title="Create and save here"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,50 @@
-import React, { useState, useRef } from 'react';
-import { Mic, MicOff, Search, Loader2, X } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Clock, MapPin, Mic, MicOff, Search, Loader2, Star, X } from 'lucide-react';
+import { useAutocomplete } from '../hooks/useAutocomplete';
+import { suggestionName } from '../services/autocomplete';
+import type { SavedPlaceEntry, Suggestion } from '../services/autocomplete';
+import type { Coordinates } from '../services/parsedQuery';
+import type { Location } from '../services/search';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   onClear: () => void;
   isLoading: boolean;
   value: string;
+  recentSearches?: string[];
+  savedPlaces?: SavedPlaceEntry[];
+  // Biases place suggestions, usually the centre of the map
+  near?: Coordinates;
+  // A chosen place suggestion, shown without parsing a query
+  onSelectPlace?: (location: Location) => void;
 }
 
-export default function SearchBar({ onSearch, onClear, isLoading, value }: SearchBarProps) {
+function suggestionLabel(suggestion: Suggestion): string {
+  return suggestion.kind === 'recent' ? suggestion.query : suggestionName(suggestion.location);
+}
+
+export default function SearchBar({
+  onSearch,
+  onClear,
+  isLoading,
+  value,
+  recentSearches = [],
+  savedPlaces = [],
+  near,
+  onSelectPlace
+}: SearchBarProps) {
   const [query, setQuery] = useState(value);
   const [isListening, setIsListening] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const suggestions = useAutocomplete(showSuggestions ? query : '', recentSearches, savedPlaces, near);
+  const isOpen = showSuggestions && suggestions.length > 0;
+
+  // Follows searches started elsewhere, such as a restored link
+  useEffect(() => {
+    setQuery(value);
+  }, [value]);
 
   const startListening = () => {
     if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) {
@@ -46,11 +79,45 @@ export default function SearchBar({ onSearch, onClear, isLoading, value }: Searc
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setShowSuggestions(false);
     if (query.trim()) {
       onSearch(query.trim());
     }
   };
 
+  const choose = (suggestion: Suggestion) => {
+    setShowSuggestions(false);
+    setQuery(suggestionLabel(suggestion));
+    if (suggestion.kind === 'recent') {
+      onSearch(suggestion.query);
+    } else {
+      onSelectPlace?.(suggestion.location);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowSuggestions(false);
+      return;
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isOpen) {
+        setShowSuggestions(true);
+        setActiveIndex(-1);
+        return;
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // -1 is the text as typed, between the last suggestion and the first
+      setActiveIndex(((activeIndex + 1 + step + suggestions.length + 1) % (suggestions.length + 1)) - 1);
+      return;
+    }
+    if (e.key === 'Enter' && isOpen && activeIndex >= 0 && suggestions[activeIndex]) {
+      e.preventDefault();
+      choose(suggestions[activeIndex]);
+    }
+  };
+
   const handleClear = () => {
     setQuery('');
     onClear();
@@ -62,7 +129,19 @@ export default function SearchBar({ onSearch, onClear, isLoading, value }: Searc
         <input
           type="text"
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowSuggestions(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
           placeholder="Search locations or ask questions..."
           className="w-full px-4 py-3 pr-32 text-gray-700 dark:text-white bg-white dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors"
         />
@@ -100,6 +179,44 @@ export default function SearchBar({ onSearch, onClear, isLoading, value }: Searc
           </button>
         </div>
       </div>
+      {isOpen && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-30 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 text-left"
+        >
+          {suggestions.map((suggestion, index) => {
+            const Icon = suggestion.kind === 'recent' ? Clock : suggestion.kind === 'saved' ? Star : MapPin;
+            return (
+              <li
+                key={`${suggestion.kind}-${index}`}
+                id={`search-suggestion-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keeps focus in the input so onBlur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center px-4 py-2 cursor-pointer ${
+                  index === activeIndex ? 'bg-gray-100 dark:bg-gray-700' : ''
+                }`}
+              >
+                <Icon size={16} className={`mr-3 shrink-0 ${suggestion.kind === 'saved' ? 'text-yellow-500' : 'text-gray-400'}`} />
+                <div className="min-w-0">
+                  <div className="truncate text-gray-700 dark:text-gray-200">{suggestionLabel(suggestion)}</div>
+                  {suggestion.kind !== 'recent' && (
+                    <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                      {suggestion.kind === 'saved'
+                        ? `Saved in ${suggestion.collection}`
+                        : suggestion.location.display_name.split(',').slice(1).join(',').trim()}
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </form>
   );
 }
\ No newline at end of file
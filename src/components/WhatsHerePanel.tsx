@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Crosshair, Loader2, MapPin, Search } from 'lucide-react';
+import { CATEGORY_STYLES } from './mapIcons';
+import type { Category } from '../services/categories';
+import type { Coordinates } from '../services/parsedQuery';
+import type { Location } from '../services/search';
+import type { PointDescription } from '../services/whatsHere';
+
+const GROUP_LABELS: Record<Category, string> = {
+  restaurant: 'Restaurants',
+  cafe: 'Cafés',
+  hotel: 'Hotels',
+  park: 'Parks',
+  landmark: 'Landmarks',
+  store: 'Shops',
+  other: 'Other places'
+};
+
+const QUICK_SEARCHES = ['cafes', 'restaurants', 'pharmacies', 'parks', 'ATMs'];
+
+interface WhatsHerePanelProps {
+  point: Coordinates;
+  description: PointDescription | null;
+  isLoading: boolean;
+  isOrigin: boolean;
+  onSearchNear: (query: string) => void;
+  onSetOrigin: () => void;
+  onOpenPlace: (location: Location) => void;
+}
+
+export default function WhatsHerePanel({
+  point,
+  description,
+  isLoading,
+  isOrigin,
+  onSearchNear,
+  onSetOrigin,
+  onOpenPlace
+}: WhatsHerePanelProps) {
+  const [query, setQuery] = useState('');
+
+  return (
+    <div className="px-4 py-2 space-y-3 text-sm">
+      <div className="flex items-start">
+        <MapPin size={16} className="mr-3 mt-0.5 shrink-0 text-gray-400" />
+        <div className="min-w-0 text-gray-700 dark:text-gray-200">
+          {description?.address.map(line => <div key={line}>{line}</div>)}
+          <div className="text-gray-500 dark:text-gray-400">
+            {point.latitude.toFixed(5)}, {point.longitude.toFixed(5)}
+          </div>
+        </div>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (query.trim()) onSearchNear(query.trim());
+        }}
+        className="flex items-center gap-2"
+      >
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search near here, e.g. cafes"
+          className="flex-1 min-w-0 px-3 py-1.5 rounded-lg border dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!query.trim()}
+          className="p-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 transition-colors disabled:opacity-50"
+          title="Search near this point"
+        >
+          <Search size={16} />
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-2">
+        {QUICK_SEARCHES.map(term => (
+          <button
+            key={term}
+            onClick={() => onSearchNear(term)}
+            className="px-3 py-1 text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            {term}
+          </button>
+        ))}
+        <button
+          onClick={onSetOrigin}
+          disabled={isOrigin}
+          className="flex items-center px-3 py-1 text-blue-500 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors disabled:opacity-50"
+          title="Use this point instead of your location for nearby searches and directions"
+        >
+          <Crosshair size={14} className="mr-1" />
+          {isOrigin ? 'Your search origin' : 'Search from here'}
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center text-gray-500 dark:text-gray-400">
+          <Loader2 size={16} className="mr-2 animate-spin" />
+          Looking around…
+        </div>
+      )}
+      {description?.error && <p className="text-red-500">{description.error}</p>}
+      {description && !isLoading && description.nearby.length === 0 && !description.error && (
+        <p className="text-gray-500 dark:text-gray-400">No named places nearby.</p>
+      )}
+
+      {description?.nearby.map(({ category, places }) => {
+        const { icon: Icon, color } = CATEGORY_STYLES[category];
+        return (
+          <div key={category}>
+            <div className="flex items-center mb-1 font-medium text-gray-800 dark:text-white">
+              <Icon size={14} className="mr-2" style={{ color }} />
+              {GROUP_LABELS[category]}
+            </div>
+            <ul className="pl-6">
+              {places.map(place => (
+                <li key={`${place.osm_type}/${place.osm_id}`}>
+                  <button
+                    onClick={() => onOpenPlace(place)}
+                    className="w-full py-0.5 text-left truncate text-blue-500 dark:text-blue-400 hover:underline"
+                  >
+                    {place.tags?.name ?? place.display_name.split(',')[0]}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { BedDouble, Coffee, Landmark, MapPin, ShoppingBag, Trees, Utensils } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import type { Category } from '../services/categories';
+
+const ICON_SIZE = 48;
+
+export const CATEGORY_STYLES: Record<Category, { icon: LucideIcon; color: string }> = {
+  restaurant: { icon: Utensils, color: '#ef4444' },
+  cafe: { icon: Coffee, color: '#a16207' },
+  hotel: { icon: BedDouble, color: '#7c3aed' },
+  park: { icon: Trees, color: '#16a34a' },
+  landmark: { icon: Landmark, color: '#0891b2' },
+  store: { icon: ShoppingBag, color: '#db2777' },
+  other: { icon: MapPin, color: '#3b82f6' }
+};
+
+export function categoryIconId(category: Category): string {
+  return `category-${category}`;
+}
+
+function iconMarkup(category: Category): string {
+  const { icon: Icon, color } = CATEGORY_STYLES[category];
+  const center = ICON_SIZE / 2;
+  return renderToStaticMarkup(
+    <svg xmlns="http://www.w3.org/2000/svg" width={ICON_SIZE} height={ICON_SIZE} viewBox={`0 0 ${ICON_SIZE} ${ICON_SIZE}`}>
+      <circle cx={center} cy={center} r={center - 3} fill={color} stroke="white" strokeWidth={3} />
+      <Icon x={center - 12} y={center - 12} size={24} color="white" strokeWidth={2.25} />
+    </svg>
+  );
+}
+
+// Rasterises one lucide-based pin per category into the map's sprite so symbol layers can use them
+export function loadCategoryIcons(map: MaplibreMap) {
+  (Object.keys(CATEGORY_STYLES) as Category[]).forEach(category => {
+    const id = categoryIconId(category);
+    if (map.hasImage(id)) return;
+
+    const image = new Image(ICON_SIZE, ICON_SIZE);
+    image.onload = () => {
+      if (!map.hasImage(id)) map.addImage(id, image, { pixelRatio: 2 });
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(iconMarkup(category))}`;
+  });
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { localSuggestions, suggestPlaces } from '../services/autocomplete';
+import { placeId } from '../services/collections';
+import type { SavedPlaceEntry, Suggestion } from '../services/autocomplete';
+import type { Coordinates } from '../services/parsedQuery';
+import type { Location } from '../services/search';
+
+const DEBOUNCE_MS = 250;
+const MIN_PLACE_QUERY = 3;
+
+// Local suggestions update on every keystroke; place lookups wait for a pause in typing
+export function useAutocomplete(text: string, recent: string[], saved: SavedPlaceEntry[], near?: Coordinates) {
+  const [places, setPlaces] = useState<Location[]>([]);
+  const trimmed = text.trim();
+  const latitude = near?.latitude;
+  const longitude = near?.longitude;
+
+  useEffect(() => {
+    if (trimmed.length < MIN_PLACE_QUERY) {
+      setPlaces([]);
+      return;
+    }
+    // Aborted on the next keystroke, so a slow response for "caf" never replaces the one for "cafe"
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const bias = latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+      suggestPlaces(trimmed, controller.signal, bias)
+        .then(setPlaces)
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          console.warn('Autocomplete error:', error);
+          setPlaces([]);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, latitude, longitude]);
+
+  const local = localSuggestions(trimmed, recent, saved);
+  const savedIds = new Set(local.flatMap(suggestion => (suggestion.kind === 'saved' ? [placeId(suggestion.location)] : [])));
+  const suggestions: Suggestion[] = [
+    ...local,
+    ...(trimmed.length >= MIN_PLACE_QUERY ? places : [])
+      .filter(location => !savedIds.has(placeId(location)))
+      .map((location): Suggestion => ({ kind: 'place', location }))
+  ];
+  return suggestions;
+}
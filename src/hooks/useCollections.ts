@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import {
+  createCollection,
+  downloadCollections,
+  importCollections,
+  loadCollections,
+  placeId,
+  storeCollections,
+  toSavedPlace
+} from '../services/collections';
+import type { Collection } from '../services/collections';
+import type { Location } from '../services/search';
+
+export function useCollections() {
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  const [collectionError, setCollectionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    storeCollections(collections);
+  }, [collections]);
+
+  const update = (id: string, change: (collection: Collection) => Collection) => {
+    setCollections(prev => prev.map(collection => (collection.id === id ? change(collection) : collection)));
+  };
+
+  const addCollection = (name: string, location?: Location) => {
+    setCollections(prev => {
+      const collection = createCollection(name, prev.length);
+      return [...prev, location ? { ...collection, places: [toSavedPlace(location)] } : collection];
+    });
+  };
+
+  const removeCollection = (id: string) => {
+    setCollections(prev => prev.filter(collection => collection.id !== id));
+  };
+
+  const toggleCollection = (id: string) => update(id, collection => ({ ...collection, visible: !collection.visible }));
+
+  // Saves the place, or removes it if the collection already has it
+  const togglePlace = (id: string, location: Location) => update(id, collection => {
+    const key = placeId(location);
+    return collection.places.some(place => place.id === key)
+      ? { ...collection, places: collection.places.filter(place => place.id !== key) }
+      : { ...collection, places: [...collection.places, toSavedPlace(location)] };
+  });
+
+  const removePlace = (id: string, key: string) => update(id, collection => ({
+    ...collection,
+    places: collection.places.filter(place => place.id !== key)
+  }));
+
+  const setNote = (id: string, key: string, note: string) => update(id, collection => ({
+    ...collection,
+    places: collection.places.map(place => (place.id === key ? { ...place, note } : place))
+  }));
+
+  const importFile = async (file: File) => {
+    setCollectionError(null);
+    try {
+      const imported = await importCollections(file);
+      setCollections(prev => [...prev, ...imported]);
+    } catch (error) {
+      setCollectionError(error instanceof Error ? error.message : `Could not open ${file.name}.`);
+    }
+  };
+
+  const exportFile = (id?: string) => {
+    const selected = id ? collections.filter(collection => collection.id === id) : collections;
+    if (selected.length) downloadCollections(selected, selected.length === 1 ? selected[0].name : 'collections');
+  };
+
+  return {
+    collections,
+    collectionError,
+    addCollection,
+    removeCollection,
+    toggleCollection,
+    togglePlace,
+    removePlace,
+    setNote,
+    importFile,
+    exportFile
+  };
+}
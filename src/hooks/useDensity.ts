@@ -0,0 +1,55 @@
+import { useRef, useState } from 'react';
+import { DENSITY_LIMIT, findAllInBounds } from '../services/search';
+import type { DensityStyle } from '../services/density';
+import type { ParsedQuery } from '../services/parsedQuery';
+import type { BoundingBox, LatLon } from '../services/spatial';
+
+export interface DensityState {
+  points: LatLon[];
+  // The viewport the points were fetched for
+  bounds: BoundingBox;
+  // More places matched than one request fetches
+  truncated: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useDensity() {
+  const [state, setState] = useState<DensityState | null>(null);
+  const [style, setStyle] = useState<DensityStyle>('hexbin');
+  // Only the latest viewport may update the view
+  const request = useRef(0);
+
+  const open = async (parsedQuery: ParsedQuery, bounds: BoundingBox) => {
+    const current = ++request.current;
+    setState(prev => ({ points: prev?.points ?? [], bounds, truncated: false, isLoading: true, error: null }));
+    try {
+      const places = await findAllInBounds(parsedQuery, bounds);
+      if (current !== request.current) return;
+      setState({
+        points: places.map(({ lat, lon }) => ({ lat, lon })),
+        bounds,
+        truncated: places.length >= DENSITY_LIMIT,
+        isLoading: false,
+        error: null
+      });
+    } catch (error) {
+      console.error('Density error:', error);
+      if (current !== request.current) return;
+      setState({
+        points: [],
+        bounds,
+        truncated: false,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch places for this view.'
+      });
+    }
+  };
+
+  const close = () => {
+    request.current++;
+    setState(null);
+  };
+
+  return { density: state, densityStyle: style, setDensityStyle: setStyle, openDensity: open, closeDensity: close };
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { circleToRing, distanceInMeters } from '../services/spatial';
+import type { Coordinates, Ring } from '../services/parsedQuery';
+import type { SearchConstraint } from '../services/spatial';
+
+export type DrawMode = 'idle' | 'circle' | 'polygon';
+
+function toLatLon(point: Coordinates) {
+  return { lat: point.latitude, lon: point.longitude };
+}
+
+// Click-driven drawing: a circle is centre then edge, a polygon is vertices finished by a double-click
+export function useDrawTool(onComplete: (constraint: SearchConstraint) => void) {
+  const [mode, setMode] = useState<DrawMode>('idle');
+  const [vertices, setVertices] = useState<Coordinates[]>([]);
+  const [cursor, setCursor] = useState<Coordinates | null>(null);
+
+  const reset = () => {
+    setMode('idle');
+    setVertices([]);
+    setCursor(null);
+  };
+
+  const start = (next: DrawMode) => {
+    setVertices([]);
+    setCursor(null);
+    setMode(next);
+  };
+
+  const finish = (constraint: SearchConstraint) => {
+    reset();
+    onComplete(constraint);
+  };
+
+  const handleClick = (point: Coordinates) => {
+    if (mode === 'circle') {
+      if (vertices.length === 0) {
+        setVertices([point]);
+      } else {
+        const [center] = vertices;
+        finish({ type: 'circle', center, radius: distanceInMeters(toLatLon(center), toLatLon(point)) });
+      }
+    } else if (mode === 'polygon') {
+      setVertices(prev => [...prev, point]);
+    }
+  };
+
+  // The double-click's own clicks have already added its point twice
+  const handleDoubleClick = () => {
+    if (mode !== 'polygon') return;
+    const ring: Ring = vertices
+      .filter((vertex, index) => index === 0 ||
+        vertex.latitude !== vertices[index - 1].latitude || vertex.longitude !== vertices[index - 1].longitude)
+      .map(vertex => [vertex.longitude, vertex.latitude]);
+    if (ring.length >= 3) finish({ type: 'polygon', polygon: [...ring, ring[0]] });
+  };
+
+  const handleMove = (point: Coordinates) => {
+    if (mode !== 'idle') setCursor(point);
+  };
+
+  let draft: Ring | null = null;
+  if (mode === 'circle' && vertices.length && cursor) {
+    draft = circleToRing(vertices[0], distanceInMeters(toLatLon(vertices[0]), toLatLon(cursor)));
+  } else if (mode === 'polygon' && vertices.length) {
+    draft = [...vertices, ...(cursor ? [cursor] : [])].map(vertex => [vertex.longitude, vertex.latitude]);
+  }
+
+  return { mode, start, cancel: reset, draft, handleClick, handleDoubleClick, handleMove };
+}
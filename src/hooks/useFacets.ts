@@ -0,0 +1,32 @@
+import { useMemo, useState } from 'react';
+import { buildFacets, facetsFromFilters, filterByFacets } from '../services/facets';
+import type { FacetSelection } from '../services/facets';
+import type { SearchTurn } from './useSearchSession';
+
+interface FacetState {
+  // The turn the selection was made on; a new turn starts from its parsed filters again
+  turn: SearchTurn | undefined;
+  selection: FacetSelection;
+}
+
+export function useFacets(turn: SearchTurn | undefined) {
+  const [state, setState] = useState<FacetState>({ turn: undefined, selection: {} });
+  const selection = useMemo(
+    () => state.turn === turn
+      ? state.selection
+      : facetsFromFilters(turn?.parsedQuery.context?.filters, turn?.results ?? []),
+    [state, turn]
+  );
+  const results = useMemo(() => filterByFacets(turn?.results ?? [], selection), [turn, selection]);
+  const facets = useMemo(() => buildFacets(turn?.results ?? [], selection), [turn, selection]);
+
+  const toggle = (key: string, value: string) => {
+    const selected = selection[key] ?? [];
+    const next = selected.includes(value) ? selected.filter(other => other !== value) : [...selected, value];
+    setState({ turn, selection: { ...selection, [key]: next } });
+  };
+
+  const clear = () => setState({ turn, selection: {} });
+
+  return { facets, facetSelection: selection, facetedResults: results, toggleFacet: toggle, clearFacets: clear };
+}
@@ -0,0 +1,38 @@
+import { useRef, useState } from 'react';
+import { fetchPlaceDetails } from '../services/placeDetails';
+import type { PlaceDetails } from '../services/placeDetails';
+import type { Location } from '../services/search';
+
+interface PlaceDetailsState {
+  location: Location;
+  details: PlaceDetails | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function usePlaceDetails() {
+  const [state, setState] = useState<PlaceDetailsState | null>(null);
+  // Only the latest place opened may update the panel
+  const request = useRef(0);
+
+  const open = async (location: Location) => {
+    const current = ++request.current;
+    setState({ location, details: null, isLoading: true, error: null });
+    try {
+      const details = await fetchPlaceDetails(location);
+      if (current === request.current) setState({ location, details, isLoading: false, error: null });
+    } catch (error) {
+      console.error('Place details error:', error);
+      if (current === request.current) {
+        setState({ location, details: null, isLoading: false, error: 'Could not load details for this place.' });
+      }
+    }
+  };
+
+  const close = () => {
+    request.current++;
+    setState(null);
+  };
+
+  return { placeDetails: state, openPlaceDetails: open, closePlaceDetails: close };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'recent-searches';
+const MAX_RECENT = 10;
+
+function loadRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((query): query is string => typeof query === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function useRecentSearches() {
+  const [recentSearches, setRecentSearches] = useState<string[]>(loadRecentSearches);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recentSearches));
+  }, [recentSearches]);
+
+  // Most recent first; repeating a search moves it back to the top
+  const addRecentSearch = (query: string) => {
+    setRecentSearches(prev => [query, ...prev.filter(entry => entry.toLowerCase() !== query.toLowerCase())].slice(0, MAX_RECENT));
+  };
+
+  return { recentSearches, addRecentSearch };
+}
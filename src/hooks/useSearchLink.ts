@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { createResponseCache } from '../services/cache';
+import { decodeSearchLink, encodeSearchLink, searchStateKey } from '../services/searchLink';
+import type { SearchLink } from '../services/searchLink';
+import type { SearchTurn } from './useSearchSession';
+
+const HOUR = 60 * 60 * 1000;
+
+// Turns already run, so reopening a link or stepping back through history skips the search
+const turnCache = createResponseCache<SearchTurn>('search-link-cache', HOUR);
+
+// Mirrors the current search in the URL: every search is a history entry, while viewport and selection update it in place
+export function useSearchLink(onRestore: (link: SearchLink | null) => void) {
+  const [initialLink] = useState(() => decodeSearchLink(window.location.search));
+  const current = useRef<SearchLink | null>(initialLink);
+  const restore = useRef(onRestore);
+  const restoredInitial = useRef(false);
+
+  useEffect(() => {
+    restore.current = onRestore;
+  });
+
+  useEffect(() => {
+    // Guarded so StrictMode's second mount doesn't search twice
+    if (initialLink && !restoredInitial.current) {
+      restoredInitial.current = true;
+      restore.current(initialLink);
+    }
+
+    const handlePopState = () => {
+      current.current = decodeSearchLink(window.location.search);
+      restore.current(current.current);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [initialLink]);
+
+  const pushLink = (link: SearchLink, turn: SearchTurn) => {
+    turnCache.set(searchStateKey(link), turn).catch(error => console.warn('Could not cache search:', error));
+    current.current = link;
+    window.history.pushState(null, '', encodeSearchLink(link));
+  };
+
+  const updateLink = (changes: Partial<Pick<SearchLink, 'view' | 'selected'>>) => {
+    if (!current.current) return;
+    current.current = { ...current.current, ...changes };
+    window.history.replaceState(null, '', encodeSearchLink(current.current));
+  };
+
+  const clearLink = () => {
+    if (!current.current) return;
+    current.current = null;
+    window.history.pushState(null, '', window.location.pathname);
+  };
+
+  // Cached turn for the link if there is one, otherwise runs the search and caches it
+  const loadTurn = async (link: SearchLink, search: () => Promise<SearchTurn>): Promise<SearchTurn> => {
+    const key = searchStateKey(link);
+    const cached = await turnCache.get(key).catch(() => undefined);
+    if (cached) return cached;
+    const turn = await search();
+    if (turn.results.length > 0) {
+      turnCache.set(key, turn).catch(error => console.warn('Could not cache search:', error));
+    }
+    return turn;
+  };
+
+  return { initialLink, pushLink, updateLink, clearLink, loadTurn };
+}
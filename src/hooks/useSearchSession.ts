@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import type { Anchor, Corridor, ParsedQuery, Ring } from '../services/parsedQuery';
+import type { Location } from '../services/search';
+
+export interface SearchTurn {
+  // What the user typed, shown in the refinement trail
+  query: string;
+  // Before any drawn shape or isochrone is applied, so later deltas build on what was asked
+  parsedQuery: ParsedQuery;
+  results: Location[];
+  summary: string;
+  travelArea: Ring | null;
+  corridor: Corridor | null;
+  anchors: Anchor[] | null;
+}
+
+// A search plus the follow-ups that refined it; earlier turns keep their results for instant rewinding
+export function useSearchSession() {
+  const [turns, setTurns] = useState<SearchTurn[]>([]);
+
+  const start = (turn: SearchTurn) => setTurns([turn]);
+
+  const refine = (turn: SearchTurn) => setTurns(prev => [...prev, turn]);
+
+  // Re-running the latest turn (e.g. in a new viewport) replaces it rather than adding a step
+  const replaceCurrent = (turn: SearchTurn) => setTurns(prev => [...prev.slice(0, -1), turn]);
+
+  const rewind = (index: number) => setTurns(prev => prev.slice(0, index + 1));
+
+  const reset = () => setTurns([]);
+
+  return { turns, current: turns[turns.length - 1] as SearchTurn | undefined, start, refine, replaceCurrent, rewind, reset };
+}
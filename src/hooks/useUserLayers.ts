@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { loadLayerFile } from '../services/layers';
+import type { UserLayer } from '../services/layers';
+
+export function useUserLayers() {
+  const [layers, setLayers] = useState<UserLayer[]>([]);
+  const [layerError, setLayerError] = useState<string | null>(null);
+
+  const addFiles = async (files: FileList | File[]) => {
+    setLayerError(null);
+    const results = await Promise.allSettled(Array.from(files).map(loadLayerFile));
+
+    const loaded = results
+      .filter((result): result is PromiseFulfilledResult<UserLayer> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const failed = results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(result => (result.reason instanceof Error ? result.reason.message : String(result.reason)));
+
+    if (loaded.length) setLayers(prev => [...prev, ...loaded]);
+    if (failed.length) setLayerError(failed.join('; '));
+  };
+
+  const toggleLayer = (id: string) => {
+    setLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, visible: !layer.visible } : layer)));
+  };
+
+  const removeLayer = (id: string) => {
+    setLayers(prev => prev.filter(layer => layer.id !== id));
+  };
+
+  return { layers, layerError, addFiles, toggleLayer, removeLayer };
+}
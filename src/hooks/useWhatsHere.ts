@@ -0,0 +1,30 @@
+import { useRef, useState } from 'react';
+import { describePoint } from '../services/whatsHere';
+import type { Coordinates } from '../services/parsedQuery';
+import type { PointDescription } from '../services/whatsHere';
+
+interface WhatsHereState {
+  point: Coordinates;
+  description: PointDescription | null;
+  isLoading: boolean;
+}
+
+export function useWhatsHere() {
+  const [state, setState] = useState<WhatsHereState | null>(null);
+  // Only the latest point clicked may update the panel
+  const request = useRef(0);
+
+  const open = async (point: Coordinates) => {
+    const current = ++request.current;
+    setState({ point, description: null, isLoading: true });
+    const description = await describePoint(point);
+    if (current === request.current) setState({ point, description, isLoading: false });
+  };
+
+  const close = () => {
+    request.current++;
+    setState(null);
+  };
+
+  return { whatsHere: state, openWhatsHere: open, closeWhatsHere: close };
+}
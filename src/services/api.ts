@@ -0,0 +1,15 @@
+// Every upstream the browser uses sits behind the proxy in server/, which holds the API keys
+export const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+export async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (response.status === 429) {
+    throw new Error(`Too many requests, try again in ${response.headers.get('Retry-After') ?? 'a few'} seconds`);
+  }
+  if (!response.ok) throw new Error(`API request failed: ${response.status}`);
+  return response.json();
+}
@@ -0,0 +1,31 @@
+import { postJson } from './api';
+import { toParsedQuery } from './parsedQuery';
+import { toQueryDelta } from './refinement';
+import { mockRefine } from './mock';
+import { fallbackParse } from './ruleParser';
+import type { LLMProvider } from './llm';
+
+// Parses on the proxy server, which picks the LLM and holds its key; answers are validated again here
+export function createApiProvider(): LLMProvider {
+  return {
+    name: 'server',
+    async parseQuery(query, userLocation) {
+      try {
+        const result = await postJson<unknown>('/parse', { query, userLocation });
+        return toParsedQuery(result, query, userLocation);
+      } catch (error) {
+        console.error('AI parsing failed:', error);
+        return fallbackParse(query, userLocation);
+      }
+    },
+
+    async refineQuery(previous, followUp) {
+      try {
+        return toQueryDelta(await postJson<unknown>('/parse/refine', { previous, followUp }));
+      } catch (error) {
+        console.error('AI refinement failed:', error);
+        return mockRefine(previous, followUp);
+      }
+    }
+  };
+}
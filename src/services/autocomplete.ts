@@ -0,0 +1,112 @@
+import { API_URL } from './api';
+import { parseNominatimPlaces } from './nominatim';
+import type { Coordinates } from './parsedQuery';
+import type { NominatimPlace } from './nominatim';
+import type { Location } from './search';
+
+const AUTOCOMPLETE_URL = `${API_URL}/search/autocomplete`;
+const AUTOCOMPLETE_ENGINE = import.meta.env.VITE_AUTOCOMPLETE_ENGINE === 'nominatim' ? 'nominatim' : 'photon';
+const LIMIT = 5;
+
+export type Suggestion =
+  | { kind: 'recent'; query: string }
+  | { kind: 'saved'; location: Location; collection: string }
+  | { kind: 'place'; location: Location };
+
+export interface SavedPlaceEntry {
+  location: Location;
+  collection: string;
+}
+
+interface PhotonProperties {
+  osm_type?: 'N' | 'W' | 'R';
+  osm_id?: number;
+  osm_key?: string;
+  osm_value?: string;
+  name?: string;
+  housenumber?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+const PHOTON_OSM_TYPES = { N: 'node', W: 'way', R: 'relation' } as const;
+
+export function suggestionName(location: Location): string {
+  return location.tags?.name ?? location.display_name.split(',')[0];
+}
+
+function fromPhoton(feature: GeoJSON.Feature<GeoJSON.Point, PhotonProperties>): Location {
+  const { properties: p } = feature;
+  const street = [p.housenumber, p.street].filter(Boolean).join(' ');
+  const name = p.name ?? street;
+  const [lon, lat] = feature.geometry.coordinates;
+  return {
+    lat,
+    lon,
+    display_name: [name, p.name ? street : undefined, p.city, p.state, p.country].filter(Boolean).join(', '),
+    ...(p.osm_type && { osm_type: PHOTON_OSM_TYPES[p.osm_type] }),
+    ...(p.osm_id !== undefined && { osm_id: p.osm_id }),
+    tags: {
+      ...(p.name && { name: p.name }),
+      ...(p.osm_key && p.osm_value && { [p.osm_key]: p.osm_value })
+    }
+  };
+}
+
+function fromNominatim(place: NominatimPlace): Location {
+  const name = place.display_name.split(',')[0];
+  return {
+    lat: Number(place.lat),
+    lon: Number(place.lon),
+    display_name: place.display_name,
+    osm_type: place.osm_type,
+    osm_id: place.osm_id,
+    importance: place.importance,
+    tags: { name, ...(place.class && place.type && { [place.class]: place.type }) }
+  };
+}
+
+// Prefix matches of place names, biased towards `near`. Not sent through the shared Nominatim
+// client: the public server forbids autocomplete, and these requests must be abortable
+export async function suggestPlaces(text: string, signal: AbortSignal, near?: Coordinates): Promise<Location[]> {
+  const params = new URLSearchParams({ q: text, limit: String(LIMIT) });
+
+  if (AUTOCOMPLETE_ENGINE === 'nominatim') {
+    params.set('format', 'json');
+    const response = await fetch(`${AUTOCOMPLETE_URL}/search?${params}`, { signal });
+    if (!response.ok) throw new Error(`Autocomplete request failed: ${response.status}`);
+    return parseNominatimPlaces(await response.json()).map(fromNominatim);
+  }
+
+  if (near) {
+    params.set('lat', String(near.latitude));
+    params.set('lon', String(near.longitude));
+  }
+  const response = await fetch(`${AUTOCOMPLETE_URL}/api?${params}`, { signal });
+  if (!response.ok) throw new Error(`Autocomplete request failed: ${response.status}`);
+  const data = (await response.json()) as GeoJSON.FeatureCollection<GeoJSON.Point, PhotonProperties>;
+  return data.features.map(fromPhoton);
+}
+
+function matches(value: string, text: string): boolean {
+  const lower = value.toLowerCase();
+  return lower.startsWith(text) || lower.includes(` ${text}`);
+}
+
+// Suggestions that need no network: recent queries first, then saved places
+export function localSuggestions(text: string, recent: string[], saved: SavedPlaceEntry[]): Suggestion[] {
+  const lower = text.trim().toLowerCase();
+  const recentMatches = recent
+    .filter(query => !lower || (matches(query, lower) && query.toLowerCase() !== lower))
+    .slice(0, lower ? 3 : LIMIT)
+    .map((query): Suggestion => ({ kind: 'recent', query }));
+  if (!lower) return recentMatches;
+
+  const savedMatches = saved
+    .filter(({ location }) => matches(suggestionName(location), lower))
+    .slice(0, 3)
+    .map(({ location, collection }): Suggestion => ({ kind: 'saved', location, collection }));
+  return [...recentMatches, ...savedMatches];
+}
@@ -0,0 +1,56 @@
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+interface CacheEntry<T> {
+  key: string;
+  expires: number;
+  value: T;
+}
+
+export interface ResponseCache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const open = indexedDB.open(name, DB_VERSION);
+  open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'key' });
+  return request(open);
+}
+
+// Persists responses in IndexedDB for `ttl` ms; falls back to memory where IndexedDB is unavailable
+export function createResponseCache<T>(name: string, ttl: number): ResponseCache<T> {
+  const memory = new Map<string, CacheEntry<T>>();
+  const db = typeof indexedDB === 'undefined'
+    ? Promise.resolve(null)
+    : openDatabase(name).catch(error => {
+      console.warn(`Cache ${name} unavailable, keeping responses in memory:`, error);
+      return null;
+    });
+
+  return {
+    async get(key) {
+      const store = (await db)?.transaction(STORE).objectStore(STORE);
+      const entry: CacheEntry<T> | undefined = store ? await request(store.get(key)) : memory.get(key);
+      if (!entry || entry.expires < Date.now()) return undefined;
+      return entry.value;
+    },
+
+    async set(key, value) {
+      const entry: CacheEntry<T> = { key, expires: Date.now() + ttl, value };
+      const store = (await db)?.transaction(STORE, 'readwrite').objectStore(STORE);
+      if (store) {
+        await request(store.put(entry));
+      } else {
+        memory.set(key, entry);
+      }
+    }
+  };
+}
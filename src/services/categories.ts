@@ -0,0 +1,20 @@
+import type { ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+
+export type Category = NonNullable<NonNullable<ParsedQuery['context']>['type']>;
+
+export const CATEGORIES: Category[] = ['restaurant', 'cafe', 'hotel', 'park', 'landmark', 'store', 'other'];
+
+// Derives a display category from OSM tags; results without telling tags are 'other'
+export function categoryOf(location: Location): Category {
+  const tags = location.tags ?? {};
+  if (['restaurant', 'fast_food', 'food_court', 'bar', 'pub'].includes(tags.amenity)) return 'restaurant';
+  if (tags.amenity === 'cafe' || tags.shop === 'coffee') return 'cafe';
+  if (['hotel', 'hostel', 'guest_house', 'motel', 'apartment'].includes(tags.tourism)) return 'hotel';
+  if (['park', 'garden', 'nature_reserve', 'playground'].includes(tags.leisure)) return 'park';
+  if (tags.historic || ['attraction', 'museum', 'monument', 'viewpoint', 'artwork'].includes(tags.tourism)) {
+    return 'landmark';
+  }
+  if (tags.shop) return 'store';
+  return 'other';
+}
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type { UserLayer } from './layers';
+import type { Location } from './search';
+
+const STORAGE_KEY = 'collections';
+const FILE_TYPE = 'smart-map-search/collections';
+const COLLECTION_COLORS = ['#eab308', '#ef4444', '#14b8a6', '#6366f1', '#f43f5e', '#84cc16'];
+
+// Ranking is left out: it explains a position in one search and means nothing once saved
+const SavedLocationSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  display_name: z.string(),
+  osm_type: z.string().optional(),
+  osm_id: z.number().optional(),
+  tags: z.record(z.string()).optional(),
+  importance: z.number().optional(),
+  layer: z.string().optional()
+});
+
+const SavedPlaceSchema = z.object({
+  id: z.string(),
+  location: SavedLocationSchema,
+  note: z.string().default(''),
+  savedAt: z.string()
+});
+
+const CollectionSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  color: z.string(),
+  visible: z.boolean().default(true),
+  places: z.array(SavedPlaceSchema),
+  createdAt: z.string()
+});
+
+const CollectionFileSchema = z.object({
+  type: z.literal(FILE_TYPE),
+  version: z.literal(1),
+  collections: z.array(CollectionSchema)
+});
+
+export type SavedPlace = z.infer<typeof SavedPlaceSchema>;
+export type Collection = z.infer<typeof CollectionSchema>;
+
+function newId(): string {
+  return crypto.randomUUID();
+}
+
+// The OSM element when there is one, so the same place found by two searches is saved once
+export function placeId(location: Location): string {
+  return location.osm_type && location.osm_id !== undefined
+    ? `${location.osm_type}/${location.osm_id}`
+    : `${location.lat.toFixed(6)},${location.lon.toFixed(6)}`;
+}
+
+export function createCollection(name: string, index: number): Collection {
+  return {
+    id: newId(),
+    name,
+    color: COLLECTION_COLORS[index % COLLECTION_COLORS.length],
+    visible: true,
+    places: [],
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function toSavedPlace(location: Location): SavedPlace {
+  const saved = { ...location };
+  delete saved.ranking;
+  return { id: placeId(location), location: saved, note: '', savedAt: new Date().toISOString() };
+}
+
+export function loadCollections(): Collection[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = z.array(CollectionSchema).safeParse(stored ? JSON.parse(stored) : []);
+    if (parsed.success) return parsed.data;
+    console.warn('Ignoring saved collections that no longer validate:', parsed.error.message);
+  } catch (error) {
+    console.warn('Could not read saved collections:', error);
+  }
+  return [];
+}
+
+export function storeCollections(collections: Collection[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+}
+
+export function exportCollections(collections: Collection[]): string {
+  return JSON.stringify({ type: FILE_TYPE, version: 1, collections }, null, 2);
+}
+
+export function downloadCollections(collections: Collection[], basename = 'collections') {
+  const url = URL.createObjectURL(new Blob([exportCollections(collections)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${basename.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '') || 'collections'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Imported collections get fresh ids so a teammate's file never overwrites local ones
+export async function importCollections(file: File): Promise<Collection[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  const parsed = CollectionFileSchema.safeParse(data);
+  if (!parsed.success) throw new Error(`${file.name} is not a collections file`);
+  return parsed.data.collections.map(collection => ({ ...collection, id: newId() }));
+}
+
+export function placesToLocations(collection: Collection): Location[] {
+  return collection.places.map(place => place.location);
+}
+
+// Drawn with the same clustered point layers as user-loaded files
+export function collectionToLayer(collection: Collection): UserLayer {
+  return {
+    id: `collection-${collection.id}`,
+    name: collection.name,
+    color: collection.color,
+    visible: collection.visible,
+    features: collection.places.map(({ location, note }) => ({
+      lat: location.lat,
+      lon: location.lon,
+      properties: { name: location.tags?.name ?? location.display_name.split(',')[0], note: note || null }
+    }))
+  };
+}
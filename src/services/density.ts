@@ -0,0 +1,83 @@
+import type { LatLon } from './spatial';
+
+export type DensityStyle = 'heatmap' | 'hexbin';
+
+export interface HexBin {
+  count: number;
+}
+
+// Hexagons are sized on screen, so a zoom level always shows about the same number of bins
+const HEX_RADIUS_PX = 24;
+// MapLibre's world is 512 px wide at zoom 0
+const TILE_SIZE = 512;
+
+// Light to dark, shared by the heatmap ramp, the bin fill and the legend
+export const DENSITY_COLORS = ['#fef3c7', '#fcd34d', '#f59e0b', '#ea580c', '#b91c1c'];
+
+function project({ lat, lon }: LatLon, scale: number): [number, number] {
+  const sin = Math.sin(lat * Math.PI / 180);
+  return [
+    ((lon + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  ];
+}
+
+function unproject([x, y]: [number, number], scale: number): [number, number] {
+  const lon = (x / scale) * 360 - 180;
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI;
+  return [lon, lat];
+}
+
+// Nearest hexagon in axial coordinates, by rounding in cube coordinates
+function hexRound(q: number, r: number): [number, number] {
+  const s = -q - r;
+  let [rq, rr] = [Math.round(q), Math.round(r)];
+  const rs = Math.round(s);
+  const [dq, dr, ds] = [Math.abs(rq - q), Math.abs(rr - r), Math.abs(rs - s)];
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return [rq, rr];
+}
+
+// Counts points in pointy-top hexagons laid out in screen space at `zoom`
+export function hexBins(points: LatLon[], zoom: number): GeoJSON.FeatureCollection<GeoJSON.Polygon, HexBin> {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const size = HEX_RADIUS_PX;
+  const counts = new Map<string, { q: number; r: number; count: number }>();
+
+  points.forEach(point => {
+    const [x, y] = project(point, scale);
+    const [q, r] = hexRound((Math.sqrt(3) / 3 * x - y / 3) / size, (2 / 3 * y) / size);
+    const key = `${q},${r}`;
+    const bin = counts.get(key) ?? { q, r, count: 0 };
+    bin.count++;
+    counts.set(key, bin);
+  });
+
+  return {
+    type: 'FeatureCollection',
+    features: Array.from(counts.values()).map(({ q, r, count }) => {
+      const cx = size * Math.sqrt(3) * (q + r / 2);
+      const cy = size * 1.5 * r;
+      const ring = Array.from({ length: 7 }, (_, i) => {
+        const angle = ((60 * (i % 6) - 30) * Math.PI) / 180;
+        return unproject([cx + size * Math.cos(angle), cy + size * Math.sin(angle)], scale);
+      });
+      return { type: 'Feature', geometry: { type: 'Polygon', coordinates: [ring] }, properties: { count } };
+    })
+  };
+}
+
+// Lower bound of each colour class, evenly spread up to the fullest bin
+export function densityBreaks(max: number): number[] {
+  const classes = DENSITY_COLORS.length;
+  const breaks = Array.from({ length: classes }, (_, i) => Math.max(1, Math.ceil((max * i) / classes)));
+  return breaks.filter((value, i) => i === 0 || value > breaks[i - 1]);
+}
+
+// Words asking where things are rather than which ones, e.g. "where are coworking spaces concentrated"
+export const DENSITY_WORDS = /\b(concentrat(ed|ion)|densit(y|ies)|dense|heat ?maps?|hot ?spots?|distribution|distributed|clustered)\b/;
+
+export function looksLikeDensityQuery(text: string): boolean {
+  return DENSITY_WORDS.test(text.toLowerCase());
+}
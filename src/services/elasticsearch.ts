@@ -0,0 +1,211 @@
+import { API_URL } from './api';
+import { lineBounds } from './spatial';
+import type { estypes } from '@elastic/elasticsearch';
+import type { OsmTag, ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+import type { SpatialFilter } from './spatial';
+
+export const POI_INDEX = import.meta.env.VITE_ELASTICSEARCH_INDEX || 'osm-pois';
+const RESULT_LIMIT = 50;
+
+export interface PoiDocument {
+  name?: string;
+  display_name: string;
+  location: { lat: number; lon: number };
+  osm_type?: string;
+  osm_id?: number;
+  importance?: number;
+  tags: Record<string, string>;
+}
+
+// Anything that can answer a search request: the official Node client, the HTTP transport below,
+// or the in-memory index in poiMemoryIndex.ts
+export interface PoiSearchTransport {
+  search(request: estypes.SearchRequest): Promise<estypes.SearchResponse<PoiDocument>>;
+}
+
+export const POI_INDEX_MAPPING: estypes.MappingTypeMapping = {
+  dynamic_templates: [
+    {
+      tags_as_keywords: {
+        path_match: 'tags.*',
+        mapping: { type: 'keyword' }
+      }
+    }
+  ],
+  properties: {
+    name: {
+      type: 'text',
+      fields: { keyword: { type: 'keyword' } }
+    },
+    display_name: { type: 'text' },
+    location: { type: 'geo_point' },
+    osm_type: { type: 'keyword' },
+    osm_id: { type: 'long' },
+    importance: { type: 'float' },
+    tags: { type: 'object', dynamic: true }
+  }
+};
+
+function tagFilters(tags: OsmTag[]): estypes.QueryDslQueryContainer[] {
+  const byKey = new Map<string, string[]>();
+  tags.forEach(({ key, value }) => {
+    byKey.set(key, [...(byKey.get(key) ?? []), value]);
+  });
+
+  return Array.from(byKey.entries()).map(([key, values]) => {
+    const field = `tags.${key}`;
+    if (values.includes('*')) return { exists: { field } };
+    if (values.length === 1) return { term: { [field]: values[0] } };
+    return { terms: { [field]: values } };
+  });
+}
+
+function spatialQuery(filter: SpatialFilter): estypes.QueryDslQueryContainer {
+  if (filter.type === 'around') {
+    return {
+      geo_distance: {
+        distance: `${Math.round(filter.radius)}m`,
+        location: { lat: filter.center.latitude, lon: filter.center.longitude }
+      }
+    };
+  }
+  if (filter.type === 'polygon') {
+    const ring = filter.polygon;
+    const [first] = ring;
+    const last = ring[ring.length - 1];
+    const closed = first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+    return {
+      geo_shape: {
+        location: {
+          shape: { type: 'polygon', coordinates: [closed] },
+          relation: 'intersects'
+        }
+      }
+    };
+  }
+  // A buffered line is beyond a query DSL shape; the box around it is narrowed when results are clipped
+  const [south, west, north, east] = filter.type === 'corridor' ? lineBounds(filter.line, filter.radius) : filter.bbox;
+  return {
+    geo_bounding_box: {
+      location: {
+        top_left: { lat: north, lon: west },
+        bottom_right: { lat: south, lon: east }
+      }
+    }
+  };
+}
+
+export function buildPoiQuery(
+  parsedQuery: ParsedQuery,
+  filter: SpatialFilter | null,
+  size = RESULT_LIMIT
+): estypes.SearchRequest {
+  const tags = parsedQuery.osmTags ?? [];
+  const nameMatch: estypes.QueryDslQueryContainer = {
+    multi_match: {
+      query: parsedQuery.searchTerm,
+      fields: ['name^3', 'display_name'],
+      fuzziness: 'AUTO'
+    }
+  };
+
+  // With tag filters the search term usually names the category, so it only boosts matching names
+  const bool: estypes.QueryDslBoolQuery = {
+    filter: [...tagFilters(tags), ...(filter ? [spatialQuery(filter)] : [])],
+    ...(tags.length ? { should: [nameMatch] } : { must: [nameMatch] })
+  };
+
+  return { index: POI_INDEX, size, query: { bool } };
+}
+
+export function toPoiDocument(location: Location): PoiDocument {
+  const tags = location.tags ?? {};
+  return {
+    ...(tags.name && { name: tags.name }),
+    display_name: location.display_name,
+    location: { lat: location.lat, lon: location.lon },
+    osm_type: location.osm_type,
+    osm_id: location.osm_id,
+    importance: location.importance,
+    tags
+  };
+}
+
+function toLocation(document: PoiDocument): Location {
+  return {
+    lat: document.location.lat,
+    lon: document.location.lon,
+    display_name: document.display_name,
+    osm_type: document.osm_type,
+    osm_id: document.osm_id,
+    importance: document.importance,
+    tags: document.tags
+  };
+}
+
+// Plain REST transport for browsers, where the Node client cannot run
+export function createHttpTransport(baseUrl = `${API_URL}/search/elasticsearch`): PoiSearchTransport {
+  return {
+    async search({ index = POI_INDEX, ...body }) {
+      const response = await fetch(`${baseUrl}/${index}/_search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) throw new Error(`Elasticsearch request failed: ${response.status}`);
+      return response.json();
+    }
+  };
+}
+
+// Index management talks to the cluster directly, as `npm run poi-index` does; the proxy only passes searches through
+export async function createPoiIndex(baseUrl: string, index = POI_INDEX) {
+  const response = await fetch(`${baseUrl}/${index}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mappings: POI_INDEX_MAPPING })
+  });
+  if (!response.ok) throw new Error(`Creating index ${index} failed: ${response.status}`);
+}
+
+export async function indexPois(documents: PoiDocument[], baseUrl: string, index = POI_INDEX) {
+  const body = documents
+    .flatMap(document => [
+      { index: { _index: index, ...(document.osm_id && { _id: `${document.osm_type}/${document.osm_id}` }) } },
+      document
+    ])
+    .map(line => JSON.stringify(line))
+    .join('\n') + '\n';
+
+  const response = await fetch(`${baseUrl}/_bulk?refresh=wait_for`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-ndjson' },
+    body
+  });
+  if (!response.ok) throw new Error(`Bulk indexing failed: ${response.status}`);
+  // A bulk request succeeds as a whole even when single documents are rejected
+  const result: { errors?: boolean } = await response.json();
+  if (result.errors) throw new Error('Bulk indexing rejected some documents');
+}
+
+let transport: PoiSearchTransport | null = null;
+
+// Swaps the active transport, e.g. for the in-memory index
+export function setPoiTransport(next: PoiSearchTransport | null) {
+  transport = next;
+}
+
+export async function searchElasticsearch(
+  parsedQuery: ParsedQuery,
+  filter: SpatialFilter | null,
+  size = RESULT_LIMIT
+): Promise<Location[]> {
+  transport ??= createHttpTransport();
+  const response = await transport.search(buildPoiQuery(parsedQuery, filter, size));
+
+  return response.hits.hits
+    .map(hit => hit._source)
+    .filter((document): document is PoiDocument => document !== undefined)
+    .map(toLocation);
+}
@@ -0,0 +1,107 @@
+import { amenityTag, hasAmenity } from './ranking';
+import type { ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface Facet {
+  // Tag key, or "diet" for all diet:* keys together
+  key: string;
+  label: string;
+  values: FacetValue[];
+}
+
+// Selected values per facet: any value within a facet, every facet together
+export type FacetSelection = Record<string, string[]>;
+
+type Filters = NonNullable<NonNullable<ParsedQuery['context']>['filters']>;
+
+const FACET_LABELS: Record<string, string> = {
+  cuisine: 'Cuisine',
+  diet: 'Diet',
+  wheelchair: 'Wheelchair',
+  outdoor_seating: 'Outdoor seating',
+  internet_access: 'Internet'
+};
+
+// diet:vegan=limited still serves vegans; diet:vegan=no does not
+const DIET_SERVED = ['yes', 'only', 'limited'];
+
+// The values a place has for a facet; cuisine and diet can have several
+function valuesOf(location: Location, key: string): string[] {
+  const tags = location.tags ?? {};
+  if (key === 'cuisine') {
+    return (tags.cuisine ?? '').toLowerCase().split(';').map(value => value.trim()).filter(Boolean);
+  }
+  if (key === 'diet') {
+    return Object.keys(tags)
+      .filter(tag => tag.startsWith('diet:') && DIET_SERVED.includes(tags[tag]))
+      .map(tag => tag.slice('diet:'.length));
+  }
+  return tags[key] ? [tags[key]] : [];
+}
+
+function matchesFacet(location: Location, key: string, selected: string[] | undefined): boolean {
+  return !selected?.length || valuesOf(location, key).some(value => selected.includes(value));
+}
+
+export function filterByFacets(locations: Location[], selection: FacetSelection): Location[] {
+  return locations.filter(location =>
+    Object.keys(selection).every(key => matchesFacet(location, key, selection[key]))
+  );
+}
+
+// Counts within each facet honour the selections in the other facets, so a count is what picking it would show
+export function buildFacets(locations: Location[], selection: FacetSelection): Facet[] {
+  return Object.keys(FACET_LABELS).flatMap(key => {
+    const others = Object.keys(selection).filter(other => other !== key);
+    const counts = new Map<string, number>();
+    locations
+      .filter(location => others.every(other => matchesFacet(location, other, selection[other])))
+      .forEach(location => valuesOf(location, key).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1)));
+    // Keep selected values visible even when the other facets leave none of them
+    selection[key]?.forEach(value => counts.set(value, counts.get(value) ?? 0));
+    if (!counts.size) return [];
+    const values = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return [{ key, label: FACET_LABELS[key], values }];
+  });
+}
+
+// Pre-selects the facet values the parsed filters asked for, among those the results actually have.
+// priceRange and rating have no OSM tags, so they never select a facet.
+export function facetsFromFilters(filters: Filters | undefined, locations: Location[]): FacetSelection {
+  const present = (key: string) => new Set(locations.flatMap(location => valuesOf(location, key)));
+  const selection: FacetSelection = {};
+  const select = (key: string, values: string[]) => {
+    if (values.length) selection[key] = Array.from(new Set([...(selection[key] ?? []), ...values]));
+  };
+
+  const cuisines = present('cuisine');
+  const diets = present('diet');
+  // "vegetarian" often arrives as a cuisine but is tagged as diet:vegetarian
+  filters?.cuisine?.forEach(cuisine => {
+    const value = cuisine.toLowerCase();
+    if (cuisines.has(value)) select('cuisine', [value]);
+    else if (diets.has(value)) select('diet', [value]);
+  });
+  filters?.amenities?.forEach(amenity => {
+    const diet = amenity.toLowerCase().replace(/[\s-]+/g, '_');
+    if (diets.has(diet)) {
+      select('diet', [diet]);
+      return;
+    }
+    const tag = amenityTag(amenity);
+    if (!tag || !FACET_LABELS[tag.key]) return;
+    select(tag.key, Array.from(present(tag.key)).filter(value => hasAmenity(tag, value)));
+  });
+  // Ranking treats the filters as preferences, so they should not hide every result
+  return filterByFacets(locations, selection).length ? selection : {};
+}
+
+export function formatFacetValue(value: string): string {
+  return value.replace(/_/g, ' ');
+}
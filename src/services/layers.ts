@@ -0,0 +1,254 @@
+import { matchesSpatialFilter } from './spatial';
+import { tokenize } from './text';
+import type { AttributeCondition, ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+import type { SpatialFilter } from './spatial';
+
+export type LayerProperties = Record<string, string | number | boolean | null>;
+
+export interface LayerFeature {
+  lat: number;
+  lon: number;
+  properties: LayerProperties;
+}
+
+export interface UserLayer {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  features: LayerFeature[];
+}
+
+const LAYER_COLORS = ['#f97316', '#8b5cf6', '#10b981', '#ec4899', '#eab308', '#06b6d4'];
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LON_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+const NAME_PROPERTIES = ['name', 'title', 'label', 'id'];
+
+let layerCount = 0;
+
+function createLayer(name: string, features: LayerFeature[]): UserLayer {
+  const index = layerCount++;
+  return {
+    id: `layer-${index}`,
+    name,
+    color: LAYER_COLORS[index % LAYER_COLORS.length],
+    visible: true,
+    features
+  };
+}
+
+// Splits CSV text into records, honouring quoted fields, doubled quotes and line breaks inside quotes.
+// Records with nothing but whitespace are skipped.
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(value => value.trim())) records.push(record.map(value => value.trim()));
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function csvValue(value: string): string | number | null {
+  if (value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+// Number('') is 0, which would put rows with blank cells at (0,0)
+function csvCoordinate(value: string | undefined): number {
+  return value?.trim() ? Number(value) : NaN;
+}
+
+export function parseCsvLayer(text: string, name: string): UserLayer {
+  const [columns, ...rows] = parseCsvRecords(text);
+  if (!columns) throw new Error(`${name} is empty`);
+
+  const lower = columns.map(column => column.toLowerCase());
+  const latIndex = lower.findIndex(column => LAT_COLUMNS.includes(column));
+  const lonIndex = lower.findIndex(column => LON_COLUMNS.includes(column));
+  if (latIndex < 0 || lonIndex < 0) {
+    throw new Error(`${name} needs latitude and longitude columns`);
+  }
+
+  const features = rows
+    .map(values => ({
+      lat: csvCoordinate(values[latIndex]),
+      lon: csvCoordinate(values[lonIndex]),
+      properties: Object.fromEntries(
+        columns
+          .map((column, index) => [column, csvValue(values[index] ?? '')] as const)
+          .filter((_, index) => index !== latIndex && index !== lonIndex)
+      )
+    }))
+    .filter(feature => Number.isFinite(feature.lat) && Number.isFinite(feature.lon));
+
+  return createLayer(name, features);
+}
+
+// Points are kept as-is; lines and polygons are represented by the average of their vertices
+export function representativePoint(geometry: GeoJSON.Geometry): [number, number] | null {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates[0], geometry.coordinates[1]];
+    case 'GeometryCollection':
+      return geometry.geometries.length ? representativePoint(geometry.geometries[0]) : null;
+    default: {
+      const positions = (geometry.coordinates as unknown[]).flat(3) as number[];
+      const count = positions.length / 2;
+      if (!count) return null;
+      let lon = 0;
+      let lat = 0;
+      for (let i = 0; i < positions.length; i += 2) {
+        lon += positions[i];
+        lat += positions[i + 1];
+      }
+      return [lon / count, lat / count];
+    }
+  }
+}
+
+export function parseGeoJsonLayer(text: string, name: string): UserLayer {
+  const data = JSON.parse(text) as GeoJSON.GeoJSON;
+  const features: GeoJSON.Feature[] =
+    data.type === 'FeatureCollection' ? data.features
+      : data.type === 'Feature' ? [data]
+        : [{ type: 'Feature', geometry: data, properties: {} }];
+
+  return createLayer(
+    name,
+    features.flatMap(feature => {
+      const point = feature.geometry && representativePoint(feature.geometry);
+      if (!point) return [];
+      return [{ lon: point[0], lat: point[1], properties: (feature.properties ?? {}) as LayerProperties }];
+    })
+  );
+}
+
+export async function loadLayerFile(file: File): Promise<UserLayer> {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  const text = await file.text();
+
+  if (/\.csv$/i.test(file.name)) return parseCsvLayer(text, name);
+  if (/\.(geo)?json$/i.test(file.name)) return parseGeoJsonLayer(text, name);
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
+
+export function layerToGeoJson(layer: UserLayer): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: layer.features.map(feature => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [feature.lon, feature.lat] },
+      properties: feature.properties
+    }))
+  };
+}
+
+// Crude plural folding so "depots" finds a layer called "depot" and vice versa
+function stem(word: string): string {
+  return word.replace(/(ies)$/, 'y').replace(/(es|s)$/, '');
+}
+
+function words(value: string): string[] {
+  return tokenize(value).map(stem);
+}
+
+function findProperty(properties: LayerProperties, key: string): LayerProperties[string] | undefined {
+  const wanted = key.toLowerCase().replace(/[\s-]+/g, '_');
+  const match = Object.keys(properties).find(name => name.toLowerCase().replace(/[\s-]+/g, '_') === wanted);
+  return match === undefined ? undefined : properties[match];
+}
+
+function satisfies(properties: LayerProperties, condition: AttributeCondition): boolean {
+  const value = findProperty(properties, condition.key);
+  if (value === undefined || value === null) return false;
+
+  if (condition.operator === '~') {
+    return String(value).toLowerCase().includes(String(condition.value).toLowerCase());
+  }
+  if (condition.operator === '=') {
+    return String(value).toLowerCase() === String(condition.value).toLowerCase();
+  }
+
+  const actual = Number(value);
+  const expected = Number(condition.value);
+  if (Number.isNaN(actual) || Number.isNaN(expected)) return false;
+  switch (condition.operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+function featureName(feature: LayerFeature, layer: UserLayer, index: number): string {
+  const key = NAME_PROPERTIES.find(name => findProperty(feature.properties, name) != null);
+  return key ? String(findProperty(feature.properties, key)) : `${layer.name} #${index + 1}`;
+}
+
+function toLocation(feature: LayerFeature, layer: UserLayer, index: number): Location {
+  return {
+    lat: feature.lat,
+    lon: feature.lon,
+    display_name: featureName(feature, layer, index),
+    layer: layer.name,
+    tags: Object.fromEntries(
+      Object.entries(feature.properties)
+        .filter(([, value]) => value !== null)
+        .map(([key, value]) => [key, String(value)])
+    )
+  };
+}
+
+// A layer answers a query when its name or a feature's text properties mention the search term
+export function searchLayers(layers: UserLayer[], parsedQuery: ParsedQuery, filter: SpatialFilter | null): Location[] {
+  const terms = words(parsedQuery.searchTerm);
+  const conditions = parsedQuery.attributes ?? [];
+
+  return layers.flatMap(layer => {
+    const layerWords = words(layer.name);
+    const layerMatches = terms.some(term => layerWords.includes(term));
+
+    return layer.features.flatMap((feature, index) => {
+      const mentioned = layerMatches || terms.some(term =>
+        Object.values(feature.properties).some(value => typeof value === 'string' && words(value).includes(term))
+      );
+      if (!mentioned) return [];
+      if (!conditions.every(condition => satisfies(feature.properties, condition))) return [];
+      if (filter && !matchesSpatialFilter(filter, feature)) return [];
+      return [toLocation(feature, layer, index)];
+    });
+  });
+}
@@ -0,0 +1,194 @@
+import { toParsedQuery } from './parsedQuery';
+import { toQueryDelta } from './refinement';
+import { mockRefine } from './mock';
+import { fallbackParse } from './ruleParser';
+import { withVocabularyTags } from './tagVocabulary';
+import type { Coordinates, ParsedQuery } from './parsedQuery';
+import type { QueryDelta } from './refinement';
+
+// 'server' is the browser's stand-in for whichever provider the proxy server runs
+export type LLMProviderName = 'mistral' | 'openai' | 'local' | 'mock' | 'server';
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  parseQuery(query: string, userLocation?: Coordinates): Promise<ParsedQuery>;
+  // Turns a follow-up ("cheaper", "what about Kolkata instead") into changes to the previous query
+  refineQuery(previous: ParsedQuery, followUp: string): Promise<QueryDelta>;
+}
+
+// Sends one system + user message pair and resolves with the raw JSON text of the reply
+export type ChatCompletion = (systemPrompt: string, userPrompt: string) => Promise<string | null>;
+
+export const SYSTEM_PROMPT = `
+You are an advanced location search assistant. Analyze user queries and extract:
+
+1. Primary search term (e.g., "coffee shops", "parks")
+2. Geographic context (neighborhood, city, landmark) and search radius, or a travel time and mode ("10 minute walk"),
+   or a trip the places should lie along ("on the way to Agra", "from Pune to Mumbai"),
+   or several places the result should be fair to ("halfway between Andheri and Bandra", "convenient for colleagues in Andheri, Bandra and Powai")
+3. OpenStreetMap tags that describe the place (key=value)
+4. Category (restaurant, hotel, cafe, park, landmark, store, other)
+5. Detailed filters:
+   - Cuisine types (Italian, Asian fusion, etc.)
+   - Price range (low, medium, high, luxury)
+   - Open status
+   - Rating thresholds
+   - Amenities (wifi, parking, etc.)
+6. Conditions on other attributes of the places (capacity, status, owner, etc.)
+
+Respond in JSON format matching this structure, omitting anything the query does not mention:
+{
+  "searchTerm": "main search term",
+  "location": {
+    "area": "specific neighborhood or city area",
+    "radius": { "value": number, "unit": "miles" | "kilometers" },
+    "travelTime": { "minutes": number, "mode": "walk" | "bike" | "drive" },
+    "route": { "from": "start, omitted for the user's position", "to": "destination", "mode": "walk" | "bike" | "drive", "width": { "value": number, "unit": "miles" | "kilometers" } },
+    "meeting": { "anchors": [{ "place": "address or area, or me for the user's position" }], "objective": "fairest" | "total", "mode": "walk" | "bike" | "drive" }
+  },
+  "osmTags": [{ "key": "amenity", "value": "cafe" }],
+  "attributes": [{ "key": "attribute name", "operator": "=" | ">" | ">=" | "<" | "<=" | "~", "value": string | number }],
+  "context": {
+    "type": "category",
+    "filters": {
+      "cuisine": ["types"],
+      "priceRange": "range",
+      "openNow": boolean,
+      "rating": minimum_rating,
+      "amenities": ["list"]
+    }
+  }
+}
+
+Examples:
+User: "Find pet-friendly cafes with wifi near Central Park open now"
+Response: {
+  "searchTerm": "cafes",
+  "location": { "area": "Central Park" },
+  "osmTags": [{ "key": "amenity", "value": "cafe" }],
+  "context": {
+    "type": "cafe",
+    "filters": {
+      "openNow": true,
+      "amenities": ["wifi", "pet-friendly"]
+    }
+  }
+}
+
+User: "Affordable sushi restaurants with 4+ rating within 2 miles"
+Response: {
+  "searchTerm": "sushi restaurants",
+  "location": { "radius": { "value": 2, "unit": "miles" } },
+  "osmTags": [{ "key": "amenity", "value": "restaurant" }, { "key": "cuisine", "value": "sushi" }],
+  "context": {
+    "type": "restaurant",
+    "filters": {
+      "cuisine": ["sushi"],
+      "priceRange": "medium",
+      "rating": 4
+    }
+  }
+}
+
+User: "Pharmacies within a 10 minute walk"
+Response: {
+  "searchTerm": "pharmacies",
+  "location": { "travelTime": { "minutes": 10, "mode": "walk" } },
+  "osmTags": [{ "key": "amenity", "value": "pharmacy" }],
+  "context": { "type": "other" }
+}
+
+User: "Petrol pumps on the way to Agra, at most 2 km off the road"
+Response: {
+  "searchTerm": "petrol pumps",
+  "location": { "route": { "to": "Agra", "mode": "drive", "width": { "value": 2, "unit": "kilometers" } } },
+  "osmTags": [{ "key": "amenity", "value": "fuel" }],
+  "context": { "type": "other" }
+}
+
+User: "A restaurant halfway between Andheri and Bandra, we'll both drive"
+Response: {
+  "searchTerm": "restaurant",
+  "location": { "meeting": { "anchors": [{ "place": "Andheri" }, { "place": "Bandra" }], "objective": "fairest", "mode": "drive" } },
+  "osmTags": [{ "key": "amenity", "value": "restaurant" }],
+  "context": { "type": "restaurant" }
+}
+
+User: "Depots in Pune with capacity over 500"
+Response: {
+  "searchTerm": "depots",
+  "location": { "area": "Pune" },
+  "attributes": [{ "key": "capacity", "operator": ">", "value": 500 }]
+}
+`;
+
+export const REFINEMENT_PROMPT = `
+You refine an existing location search. You are given the current search as JSON and a follow-up request.
+Respond with only the changes, in JSON matching this structure, omitting anything that stays the same:
+{
+  "searchTerm": "new search term",
+  "type": "category",
+  "location": { "area": "...", "radius": { "value": number, "unit": "miles" | "kilometers" }, "travelTime": { "minutes": number, "mode": "walk" | "bike" | "drive" }, "route": { "from": "...", "to": "...", "mode": "walk" | "bike" | "drive", "width": { "value": number, "unit": "miles" | "kilometers" } }, "meeting": { "anchors": [{ "place": "..." }], "objective": "fairest" | "total", "mode": "walk" | "bike" | "drive" } },
+  "addTags": [{ "key": "amenity", "value": "cafe" }],
+  "addAttributes": [{ "key": "attribute name", "operator": "=" | ">" | ">=" | "<" | "<=" | "~", "value": string | number }],
+  "filters": { "cuisine": ["types"], "priceRange": "low" | "medium" | "high" | "luxury", "openNow": boolean, "rating": number, "amenities": ["list"] },
+  "remove": {
+    "tags": [{ "key": "cuisine", "value": "italian" }],
+    "attributes": ["attribute name"],
+    "filters": ["cuisine" | "priceRange" | "openNow" | "rating" | "amenities"],
+    "cuisine": ["types"],
+    "amenities": ["list"]
+  }
+}
+
+"location" replaces the whole current location. "filters" are merged into the current ones.
+
+Examples:
+Current: { "searchTerm": "cafes", "location": { "area": "Pune" }, "context": { "filters": { "priceRange": "medium" } } }
+Follow-up: "only the ones with wifi"
+Response: { "filters": { "amenities": ["wifi"] } }
+
+Follow-up: "cheaper"
+Response: { "filters": { "priceRange": "low" } }
+
+Follow-up: "closer to the station"
+Response: { "location": { "area": "Pune railway station", "radius": { "value": 1, "unit": "kilometers" } } }
+
+Follow-up: "what about Kolkata instead"
+Response: { "location": { "area": "Kolkata" } }
+`;
+
+export function createChatProvider(name: LLMProviderName, complete: ChatCompletion): LLMProvider {
+  return {
+    name,
+    async parseQuery(query, userLocation) {
+      try {
+        const userPrompt = userLocation
+          ? `${query}\n\nUser current location: ${JSON.stringify(userLocation)}`
+          : query;
+        const result = await complete(SYSTEM_PROMPT, userPrompt);
+        if (!result) throw new Error(`Empty response from ${name}`);
+
+        return withVocabularyTags(toParsedQuery(JSON.parse(result), query, userLocation));
+      } catch (error) {
+        console.error('AI parsing failed:', error);
+        return fallbackParse(query, userLocation);
+      }
+    },
+
+    async refineQuery(previous, followUp) {
+      try {
+        const result = await complete(
+          REFINEMENT_PROMPT,
+          `Current: ${JSON.stringify(previous)}\nFollow-up: "${followUp}"`
+        );
+        if (!result) throw new Error(`Empty response from ${name}`);
+
+        return toQueryDelta(JSON.parse(result));
+      } catch (error) {
+        console.error('AI refinement failed:', error);
+        return mockRefine(previous, followUp);
+      }
+    }
+  };
+}
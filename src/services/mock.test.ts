@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { mockParse, mockRefine } from './mock';
+import { toParsedQuery } from './parsedQuery';
+
+const parse = (query: string) => toParsedQuery(mockParse(query), query);
+
+describe('mockParse', () => {
+  it('reads a category, cuisine, area and filters', () => {
+    const parsed = parse('italian restaurants in Pune open now with wifi');
+    expect(parsed.searchTerm).toBe('restaurants');
+    expect(parsed.osmTags).toEqual([{ key: 'amenity', value: 'restaurant' }, { key: 'cuisine', value: 'italian' }]);
+    expect(parsed.location?.area).toBe('pune');
+    expect(parsed.context).toEqual({
+      type: 'restaurant',
+      filters: { cuisine: ['italian'], amenities: ['wifi'], openNow: true }
+    });
+  });
+
+  it('reads a radius', () => {
+    expect(parse('atm within 2 km').location?.radius).toEqual({ value: 2, unit: 'kilometers' });
+  });
+
+  it('reads a travel time, taking a walk when no mode is given', () => {
+    expect(parse('pharmacy within 15 minutes').location?.travelTime).toEqual({ minutes: 15, mode: 'walk' });
+    expect(parse('parks 10 minute drive').location?.travelTime?.mode).toBe('drive');
+  });
+
+  it('reads a route, where a distance is the corridor width', () => {
+    const location = parse('petrol pumps on the way to Agra within 2 km').location;
+    expect(location?.route).toMatchObject({ to: 'agra', width: { value: 2, unit: 'kilometers' } });
+    expect(location?.radius).toBeUndefined();
+    expect(location?.area).toBeUndefined();
+  });
+
+  it('reads meeting anchors and the objective', () => {
+    const meeting = parse('a restaurant halfway between Andheri and Bandra with the least travel overall').location?.meeting;
+    expect(meeting?.anchors.map(anchor => anchor.place)).toEqual(['andheri', 'bandra']);
+    expect(meeting?.objective).toBe('total');
+  });
+
+  it('reads attribute comparisons', () => {
+    expect(parse('hotels with stars at least 4').attributes).toEqual([{ key: 'stars', operator: '>=', value: 4 }]);
+  });
+});
+
+describe('mockRefine', () => {
+  const previous = parse('italian restaurants in Pune');
+
+  it('adds cuisines and filters', () => {
+    const delta = mockRefine(previous, 'only chinese open now');
+    expect(delta.filters).toMatchObject({ cuisine: ['chinese'], openNow: true });
+    expect(delta.addTags).toEqual([{ key: 'cuisine', value: 'chinese' }]);
+  });
+
+  it('removes what a negation names', () => {
+    expect(mockRefine(previous, 'without italian').remove?.cuisine).toEqual(['italian']);
+  });
+
+  it('replaces the area', () => {
+    expect(mockRefine(previous, 'what about Mumbai instead').location).toEqual({ area: 'mumbai' });
+  });
+});
@@ -0,0 +1,265 @@
+import { radiusInMeters, toParsedQuery } from './parsedQuery';
+import type { LLMProvider } from './llm';
+import type { AttributeCondition, OsmTag, ParsedQuery, TravelMode } from './parsedQuery';
+import type { QueryDelta } from './refinement';
+import type { Category } from './categories';
+
+// Shared with the rule-based parser, which runs before any LLM
+export const CATEGORY_KEYWORDS: { pattern: RegExp; type: Category; tag: OsmTag }[] = [
+  { pattern: /\b(restaurants?|eater(y|ies)|diners?)\b/, type: 'restaurant', tag: { key: 'amenity', value: 'restaurant' } },
+  { pattern: /\b(bars?|pubs?)\b/, type: 'restaurant', tag: { key: 'amenity', value: 'bar' } },
+  { pattern: /\b(cafes?|coffee( shops?)?)\b/, type: 'cafe', tag: { key: 'amenity', value: 'cafe' } },
+  { pattern: /\b(hotels?|lodges?|lodging)\b/, type: 'hotel', tag: { key: 'tourism', value: 'hotel' } },
+  { pattern: /\b(hostels?)\b/, type: 'hotel', tag: { key: 'tourism', value: 'hostel' } },
+  // Before parks, which would otherwise claim "car parks"
+  { pattern: /\b(car parks?|parking lots?)\b/, type: 'other', tag: { key: 'amenity', value: 'parking' } },
+  { pattern: /\bparks?\b/, type: 'park', tag: { key: 'leisure', value: 'park' } },
+  { pattern: /\bgardens?\b/, type: 'park', tag: { key: 'leisure', value: 'garden' } },
+  { pattern: /\b(playgrounds?)\b/, type: 'park', tag: { key: 'leisure', value: 'playground' } },
+  { pattern: /\b(museums?|monuments?)\b/, type: 'landmark', tag: { key: 'tourism', value: 'museum' } },
+  { pattern: /\b(supermarkets?|grocery|groceries)\b/, type: 'store', tag: { key: 'shop', value: 'supermarket' } },
+  { pattern: /\b(bakery|bakeries)\b/, type: 'store', tag: { key: 'shop', value: 'bakery' } },
+  { pattern: /\b(pharmacy|pharmacies|chemists?|drugstores?|medical stores?)\b/, type: 'other', tag: { key: 'amenity', value: 'pharmacy' } },
+  { pattern: /\bhospitals?\b/, type: 'other', tag: { key: 'amenity', value: 'hospital' } },
+  { pattern: /\bclinics?\b/, type: 'other', tag: { key: 'amenity', value: 'clinic' } },
+  { pattern: /\b(atms?|cash machines?)\b/, type: 'other', tag: { key: 'amenity', value: 'atm' } },
+  { pattern: /\bbanks?\b/, type: 'other', tag: { key: 'amenity', value: 'bank' } },
+  { pattern: /\b(petrol pumps?|petrol stations?|gas stations?|fuel)\b/, type: 'other', tag: { key: 'amenity', value: 'fuel' } },
+  { pattern: /\b(toilets?|restrooms?|washrooms?)\b/, type: 'other', tag: { key: 'amenity', value: 'toilets' } },
+  { pattern: /\b(police( stations?)?)\b/, type: 'other', tag: { key: 'amenity', value: 'police' } },
+  { pattern: /\bschools?\b/, type: 'other', tag: { key: 'amenity', value: 'school' } },
+  { pattern: /\b(cinemas?|movie theaters?)\b/, type: 'other', tag: { key: 'amenity', value: 'cinema' } },
+  { pattern: /\b(gyms?|fitness cent(er|re)s?)\b/, type: 'other', tag: { key: 'leisure', value: 'fitness_centre' } }
+];
+
+export const CUISINES = ['italian', 'chinese', 'indian', 'japanese', 'sushi', 'mexican', 'thai', 'pizza', 'burger'];
+
+const COMPARISONS: Record<string, AttributeCondition['operator']> = {
+  over: '>',
+  above: '>',
+  'more than': '>',
+  'greater than': '>',
+  'at least': '>=',
+  under: '<',
+  below: '<',
+  'less than': '<',
+  'at most': '<='
+};
+
+export const AMENITIES: Record<string, RegExp> = {
+  wifi: /\b(wifi|wi-fi|internet)\b/,
+  outdoor_seating: /\boutdoor seating\b/,
+  parking: /\bparking\b/,
+  wheelchair: /\bwheelchair\b/
+};
+
+const TRAVEL_MODES: Record<string, TravelMode> = {
+  walk: 'walk',
+  walking: 'walk',
+  bike: 'bike',
+  cycle: 'bike',
+  cycling: 'bike',
+  ride: 'bike',
+  drive: 'drive',
+  driving: 'drive'
+};
+
+const PRICE_RANGES = ['low', 'medium', 'high', 'luxury'] as const;
+
+// A place name runs until the next clause or the end of the query
+const PLACE = '[a-z][a-z\\s]*?';
+const PLACE_END = '(?=\\s+(?:open|with|within|if|when|by|we|driving|walking|cycling|least|overall|in total)\\b|[.;]|$)';
+const ROUTE_PATTERNS = [
+  // "on the way to Agra", "along my commute from Pune to Mumbai", "en route to Agra"
+  `\\b(?:(?:on|along)\\s+(?:the|my)\\s+(?:way|route|drive|commute|trip)|en\\s+route)\\s+(?:from\\s+(?<from>${PLACE})\\s+)?to\\s+(?<to>${PLACE})${PLACE_END}`,
+  `\\bfrom\\s+(?<from>${PLACE})\\s+to\\s+(?<to>${PLACE})${PLACE_END}`
+].map(source => new RegExp(source));
+// Two or more places: "andheri and bandra", "andheri, bandra and juhu"
+const PLACE_LIST = '[a-z][a-z\\s,]*?\\sand\\s[a-z][a-z\\s]*?';
+const MEETING_PATTERNS = [
+  // "halfway between Andheri and Bandra"
+  `\\b(?:(?:half|mid)way\\s+)?between\\s+(?<places>${PLACE_LIST})${PLACE_END}`,
+  // "convenient for friends in Andheri, Bandra and Juhu"
+  `\\b(?:convenient|central|fair)\\s+(?:for|to)\\s+(?:[a-z]+\\s+(?:in|at|from)\\s+)?(?<places>${PLACE_LIST})${PLACE_END}`
+].map(source => new RegExp(source));
+
+export interface RouteMatch {
+  from?: string;
+  to: string;
+  // The words that named the route, for taking them out of the subject
+  phrase: string;
+}
+
+export function matchRoute(text: string): RouteMatch | null {
+  for (const pattern of ROUTE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match?.groups) {
+      const { from, to } = match.groups;
+      return { ...(from && { from: from.trim() }), to: to.trim(), phrase: match[0] };
+    }
+  }
+  return null;
+}
+
+export interface MeetingMatch {
+  places: string[];
+  phrase: string;
+}
+
+export function matchMeeting(text: string): MeetingMatch | null {
+  for (const pattern of MEETING_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match?.groups) {
+      const places = match.groups.places.split(/\s*,\s*(?:and\s+)?|\s+and\s+/).map(place => place.trim()).filter(Boolean);
+      if (places.length >= 2) return { places, phrase: match[0] };
+    }
+  }
+  return null;
+}
+
+// Deterministic keyword parser so the search pipeline runs without any network access
+export function mockParse(query: string): Record<string, unknown> {
+  const text = query.toLowerCase();
+  const category = CATEGORY_KEYWORDS.find(entry => entry.pattern.test(text));
+  const cuisine = CUISINES.filter(name => text.includes(name));
+  const amenities = Object.keys(AMENITIES).filter(name => AMENITIES[name].test(text));
+
+  const osmTags: OsmTag[] = category ? [category.tag] : [];
+  if (cuisine.length) osmTags.push({ key: 'cuisine', value: cuisine[0] });
+
+  const meeting = matchMeeting(text);
+  const route = meeting ? null : matchRoute(text);
+  // "from Pune to Mumbai" names a trip and "between Andheri and Bandra" several places, not an area
+  const area = route || meeting ? undefined : /\b(?:in|at|around|near|from)\s+(?!me\b)([a-z][a-z\s]*?)(?:\s+(?:open|with|within)\b|$)/.exec(text)?.[1];
+  const mode = /\b(walk|walking|bike|cycle|cycling|ride|drive|driving)\b/.exec(text)?.[1];
+  const distance = /\bwithin\s+(\d+(?:\.\d+)?)\s*(km|kilometers?|mi|miles?)\b/.exec(text);
+  // "within 15 minutes" with no mode is taken as a walk
+  const travelTime = /\b(\d+)[\s-]*min(?:ute)?s?(?:'s)?\s+(walk|walking|bike|cycle|cycling|ride|drive|driving)\b/.exec(text)
+    ?? /\bwithin\s+(\d+)[\s-]*min(?:ute)?s?()\b/.exec(text);
+  const attributes = Array.from(
+    text.matchAll(new RegExp(`\\b([a-z_]+)\\s+(${Object.keys(COMPARISONS).join('|')})\\s+(\\d+(?:\\.\\d+)?)\\b`, 'g')),
+    ([, key, comparison, value]) => ({ key, operator: COMPARISONS[comparison], value: Number(value) })
+  );
+  const phrase = (meeting ?? route)?.phrase;
+  const subject = (phrase ? text.replace(phrase, ' ') : text).split(/\s+(?:(?:in|at|around|near|from|with|within|open)\b|(?:an?\s+)?\d+[\s-]*min)/)[0].trim();
+
+  const filters = {
+    ...(cuisine.length && { cuisine }),
+    ...(amenities.length && { amenities }),
+    ...(/\bopen now\b/.test(text) && { openNow: true })
+  };
+
+  return {
+    searchTerm: category ? text.match(category.pattern)![0] : subject || query,
+    ...((area || distance || travelTime || route || meeting) && {
+      location: {
+        ...(area && { area: area.trim() }),
+        ...(route && {
+          route: {
+            ...(route.from && { from: route.from }),
+            to: route.to,
+            ...(mode && { mode: TRAVEL_MODES[mode] }),
+            // Along a route, "within 2 km" is how far off the road a stop may be
+            ...(distance && { width: { value: Number(distance[1]), unit: distance[2].startsWith('mi') ? 'miles' : 'kilometers' } })
+          }
+        }),
+        ...(meeting && {
+          meeting: {
+            anchors: meeting.places.map(place => ({ place })),
+            ...(/\b(total|overall|combined|altogether)\b/.test(text) && { objective: 'total' }),
+            ...(mode && { mode: TRAVEL_MODES[mode] })
+          }
+        }),
+        ...(travelTime && !route && {
+          travelTime: { minutes: Number(travelTime[1]), mode: TRAVEL_MODES[travelTime[2]] ?? 'walk' }
+        }),
+        ...(distance && !route && {
+          radius: {
+            value: Number(distance[1]),
+            unit: distance[2].startsWith('mi') ? 'miles' : 'kilometers'
+          }
+        })
+      }
+    }),
+    ...(osmTags.length && { osmTags }),
+    ...(attributes.length && { attributes }),
+    context: {
+      ...(category && { type: category.type }),
+      filters
+    }
+  };
+}
+
+// Keyword counterpart of REFINEMENT_PROMPT, also used when a provider fails to refine
+export function mockRefine(previous: ParsedQuery, followUp: string): QueryDelta {
+  const text = followUp.toLowerCase().replace(/\s*\binstead\b/g, '');
+  const switchTo = /\b(?:what|how) about\s+([a-z][a-z\s]*)$/.exec(text)?.[1];
+  const parsed = toParsedQuery(mockParse(switchTo && !CATEGORY_KEYWORDS.some(entry => entry.pattern.test(switchTo)) ? `in ${switchTo}` : text), followUp);
+  const filters = parsed.context?.filters ?? {};
+  const delta: QueryDelta = {};
+
+  if (/\b(without|not|no longer|remove|drop|exclude|except)\b/.test(text)) {
+    delta.remove = {
+      cuisine: filters.cuisine,
+      amenities: filters.amenities,
+      tags: filters.cuisine?.map(value => ({ key: 'cuisine', value })),
+      ...(filters.openNow && { filters: ['openNow' as const] })
+    };
+  } else {
+    delta.filters = filters;
+    delta.addAttributes = parsed.attributes;
+    delta.addTags = filters.cuisine?.map(value => ({ key: 'cuisine', value }));
+  }
+
+  // A new category swaps the subject but keeps the area and filters
+  if (parsed.context?.type && parsed.context.type !== previous.context?.type) {
+    delta.searchTerm = parsed.searchTerm;
+    delta.type = parsed.context.type;
+    delta.remove = {
+      ...delta.remove,
+      tags: previous.osmTags,
+      ...(!filters.cuisine && { filters: ['cuisine' as const] })
+    };
+    delta.addTags = parsed.osmTags;
+  }
+
+  const price = PRICE_RANGES.indexOf(previous.context?.filters?.priceRange ?? 'medium');
+  if (/\b(cheaper|cheap|affordable|budget)\b/.test(text)) {
+    delta.filters = { ...delta.filters, priceRange: PRICE_RANGES[Math.max(price - 1, 0)] };
+  } else if (/\b(pricier|fancier|upscale|more expensive)\b/.test(text)) {
+    delta.filters = { ...delta.filters, priceRange: PRICE_RANGES[Math.min(price + 1, PRICE_RANGES.length - 1)] };
+  }
+
+  const closerTo = /\b(?:closer|nearer) to\s+(?:the\s+)?([a-z][a-z\s]*)/.exec(text)?.[1];
+  const area = previous.location?.area;
+  if (closerTo) {
+    delta.location = {
+      area: area ? `${closerTo.trim()}, ${area}` : closerTo.trim(),
+      radius: { value: 1, unit: 'kilometers' }
+    };
+  } else if (/\b(closer|nearer)\b/.test(text)) {
+    delta.location = {
+      ...previous.location,
+      radius: { value: radiusInMeters(previous) / 2000, unit: 'kilometers' }
+    };
+  } else if (parsed.location?.area) {
+    // A new area replaces the old one entirely, including any pinned position
+    delta.location = { area: parsed.location.area };
+  } else if (parsed.location) {
+    delta.location = { ...previous.location, ...parsed.location };
+  }
+
+  return delta;
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    async parseQuery(query, userLocation) {
+      return toParsedQuery(mockParse(query), query, userLocation);
+    },
+    async refineQuery(previous, followUp) {
+      return mockRefine(previous, followUp);
+    }
+  };
+}
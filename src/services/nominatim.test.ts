@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createNominatimClient, parseNominatimPlaces } from './nominatim';
+
+const place = {
+  place_id: 1,
+  lat: '18.52',
+  lon: '73.86',
+  display_name: 'Pune, Maharashtra, India',
+  osm_type: 'relation',
+  osm_id: 1630,
+  boundingbox: ['18.4', '18.6', '73.7', '73.9'],
+  place_rank: 16
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function client(body: unknown) {
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(body)));
+  return createNominatimClient({ baseUrl: 'http://nominatim.test', minInterval: 0, cache: null });
+}
+
+describe('parseNominatimPlaces', () => {
+  it('keeps the fields the app reads', () => {
+    expect(parseNominatimPlaces([place])).toEqual([{
+      place_id: 1,
+      lat: '18.52',
+      lon: '73.86',
+      display_name: 'Pune, Maharashtra, India',
+      osm_type: 'relation',
+      osm_id: 1630,
+      boundingbox: ['18.4', '18.6', '73.7', '73.9']
+    }]);
+  });
+
+  it('drops places that do not validate', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseNominatimPlaces([place, { place_id: 2, lat: 18.5 }])).toHaveLength(1);
+  });
+
+  it('throws on an error body or anything that is not a list', () => {
+    expect(() => parseNominatimPlaces({ error: { code: 400, message: 'Bad query' } })).toThrow('Nominatim error: Bad query');
+    expect(() => parseNominatimPlaces({ error: 'Unable to geocode' })).toThrow('Unable to geocode');
+    expect(() => parseNominatimPlaces('<html>')).toThrow('unexpected response');
+  });
+});
+
+describe('createNominatimClient', () => {
+  it('validates search results', async () => {
+    expect(await client([place]).search({ q: 'Pune' })).toHaveLength(1);
+    await expect(client({ error: 'Bad query' }).search({ q: '' })).rejects.toThrow('Bad query');
+  });
+
+  it('validates lookups', async () => {
+    await expect(client({ error: 'Too many ids' }).lookup([{ osm_type: 'node', osm_id: 1 }])).rejects.toThrow('Too many ids');
+  });
+
+  it('answers null when reverse geocoding finds nothing', async () => {
+    expect(await client({ error: 'Unable to geocode' }).reverse(0, 0)).toBeNull();
+    expect((await client(place).reverse(18.52, 73.86))?.display_name).toBe('Pune, Maharashtra, India');
+  });
+});
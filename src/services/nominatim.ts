@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { API_URL } from './api';
+import { createResponseCache } from './cache';
+import type { ResponseCache } from './cache';
+
+export type NominatimOsmType = 'node' | 'way' | 'relation';
+
+export type NominatimAddress = Partial<Record<
+  | 'house_number' | 'road' | 'neighbourhood' | 'suburb' | 'city' | 'town' | 'village'
+  | 'county' | 'state' | 'postcode' | 'country' | 'country_code',
+  string
+>> & Record<string, string>;
+
+export interface NominatimPlace {
+  place_id: number;
+  lat: string;
+  lon: string;
+  display_name: string;
+  osm_type?: NominatimOsmType;
+  osm_id?: number;
+  class?: string;
+  type?: string;
+  importance?: number;
+  // [south, north, west, east] as strings
+  boundingbox?: [string, string, string, string];
+  address?: NominatimAddress;
+  extratags?: Record<string, string> | null;
+  namedetails?: Record<string, string> | null;
+}
+
+// Responses are checked against the fields the app reads; anything else Nominatim sends is dropped
+const NominatimPlaceSchema: z.ZodType<NominatimPlace> = z.object({
+  place_id: z.number(),
+  lat: z.string(),
+  lon: z.string(),
+  display_name: z.string(),
+  osm_type: z.enum(['node', 'way', 'relation']).optional(),
+  osm_id: z.number().optional(),
+  class: z.string().optional(),
+  type: z.string().optional(),
+  importance: z.number().optional(),
+  // [south, north, west, east] as strings
+  boundingbox: z.tuple([z.string(), z.string(), z.string(), z.string()]).optional(),
+  address: z.record(z.string()).optional(),
+  extratags: z.record(z.string()).nullable().optional(),
+  namedetails: z.record(z.string()).nullable().optional()
+});
+
+// Nominatim reports failures such as a malformed query as { error } with a 200 status
+const NominatimErrorSchema = z.object({
+  error: z.union([z.string(), z.object({ message: z.string() }).passthrough()])
+});
+
+function errorMessage(data: unknown): string | null {
+  const error = NominatimErrorSchema.safeParse(data);
+  if (!error.success) return null;
+  return typeof error.data.error === 'string' ? error.data.error : error.data.error.message;
+}
+
+// Search and lookup answer with a list; places that do not validate are dropped rather than failing the rest
+export function parseNominatimPlaces(data: unknown): NominatimPlace[] {
+  const message = errorMessage(data);
+  if (message !== null) throw new Error(`Nominatim error: ${message}`);
+  if (!Array.isArray(data)) throw new Error('Nominatim returned an unexpected response');
+
+  return data.flatMap(item => {
+    const place = NominatimPlaceSchema.safeParse(item);
+    if (!place.success) console.warn('Skipping malformed Nominatim place:', place.error.format());
+    return place.success ? [place.data] : [];
+  });
+}
+
+export type NominatimParams = Record<string, string | number | boolean | undefined>;
+
+export interface NominatimClientOptions {
+  baseUrl?: string;
+  // Contact address sent with every request, as the usage policy asks of heavy users
+  email?: string;
+  // Minimum gap between requests; the public server allows one per second
+  minInterval?: number;
+  cacheTtl?: number;
+  cache?: ResponseCache<unknown> | null;
+}
+
+export interface NominatimClient {
+  search(params: NominatimParams): Promise<NominatimPlace[]>;
+  reverse(lat: number, lon: number, params?: NominatimParams): Promise<NominatimPlace | null>;
+  lookup(ids: { osm_type: NominatimOsmType; osm_id: number }[], params?: NominatimParams): Promise<NominatimPlace[]>;
+}
+
+const DEFAULT_URL = 'https://nominatim.openstreetmap.org';
+const DAY = 24 * 60 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function createNominatimClient({
+  baseUrl = DEFAULT_URL,
+  email,
+  minInterval = 1000,
+  cacheTtl = DAY,
+  cache = createResponseCache('nominatim-cache', cacheTtl)
+}: NominatimClientOptions = {}): NominatimClient {
+  const inFlight = new Map<string, Promise<unknown>>();
+  let nextSlot = 0;
+
+  // Each caller reserves the next free slot, so requests leave in order at most once per interval
+  const throttle = async () => {
+    const now = Date.now();
+    const wait = nextSlot - now;
+    nextSlot = Math.max(now, nextSlot) + minInterval;
+    if (wait > 0) await sleep(wait);
+  };
+
+  const fetchJson = async (url: string): Promise<unknown> => {
+    const cached = await cache?.get(url).catch(() => undefined);
+    if (cached !== undefined) return cached;
+
+    await throttle();
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Nominatim request failed: ${response.status}`);
+
+    const data: unknown = await response.json();
+    await cache?.set(url, data).catch(error => console.warn('Caching Nominatim response failed:', error));
+    return data;
+  };
+
+  const get = (endpoint: string, params: NominatimParams): Promise<unknown> => {
+    const query = new URLSearchParams({ format: 'json' });
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .forEach(([key, value]) => query.set(key, String(value)));
+    if (email) query.set('email', email);
+    // Sorted so identical requests share a cache entry whatever order their params were built in
+    query.sort();
+
+    const url = `${baseUrl}/${endpoint}?${query}`;
+    const pending = inFlight.get(url);
+    if (pending) return pending;
+
+    const request = fetchJson(url).finally(() => inFlight.delete(url));
+    inFlight.set(url, request);
+    return request;
+  };
+
+  return {
+    async search(params) {
+      return parseNominatimPlaces(await get('search', params));
+    },
+
+    // Points with nothing nearby, e.g. at sea, answer { error: "Unable to geocode" }
+    async reverse(lat, lon, params = {}) {
+      const place = NominatimPlaceSchema.safeParse(await get('reverse', { ...params, lat, lon }));
+      return place.success ? place.data : null;
+    },
+
+    async lookup(ids, params = {}) {
+      if (!ids.length) return [];
+      const osmIds = ids.map(({ osm_type, osm_id }) => `${osm_type[0].toUpperCase()}${osm_id}`).join(',');
+      return parseNominatimPlaces(await get('lookup', { ...params, osm_ids: osmIds }));
+    }
+  };
+}
+
+// The proxy adds the contact address and spaces requests out for the public server
+export const nominatim = createNominatimClient({ baseUrl: `${API_URL}/search/nominatim`, minInterval: 0 });
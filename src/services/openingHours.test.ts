@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { evaluateOpeningHours, localClockAt, parseOpeningHours } from './openingHours';
+import type { LocalClock } from './openingHours';
+
+// 5 January 2026 is a Monday
+const MONDAY = Date.UTC(2026, 0, 5);
+const DAY = 24 * 60 * 60 * 1000;
+
+function at(dayOffset: number, time: string): LocalClock {
+  const [hours, minutes] = time.split(':').map(Number);
+  return { day: new Date(MONDAY + dayOffset * DAY), minutes: hours * 60 + minutes };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe('evaluateOpeningHours', () => {
+  it('applies weekday ranges', () => {
+    expect(evaluateOpeningHours('Mo-Fr 09:00-18:00', at(0, '10:00'))).toEqual({ open: true, label: 'Open until 18:00' });
+    expect(evaluateOpeningHours('Mo-Fr 09:00-18:00', at(5, '10:00'))).toEqual({ open: false, label: 'Opens Mon at 9:00' });
+  });
+
+  it('applies ranges that wrap around the week', () => {
+    expect(evaluateOpeningHours('Fr-Mo 10:00-16:00', at(6, '11:00'))?.open).toBe(true);
+    expect(evaluateOpeningHours('Fr-Mo 10:00-16:00', at(0, '11:00'))?.open).toBe(true);
+    expect(evaluateOpeningHours('Fr-Mo 10:00-16:00', at(2, '11:00'))).toEqual({ open: false, label: 'Opens Fri at 10:00' });
+  });
+
+  it('handles several spans in one day and days that are off', () => {
+    const hours = 'Mo-Sa 09:00-13:00,16:00-20:00; Su off';
+    expect(evaluateOpeningHours(hours, at(0, '14:00'))).toEqual({ open: false, label: 'Opens at 16:00' });
+    expect(evaluateOpeningHours(hours, at(0, '17:00'))).toEqual({ open: true, label: 'Open until 20:00' });
+    expect(evaluateOpeningHours(hours, at(6, '10:00'))).toEqual({ open: false, label: 'Opens tomorrow at 9:00' });
+  });
+
+  it('lets overnight spans spill into the next day', () => {
+    const hours = 'Fr 20:00-02:00';
+    expect(evaluateOpeningHours(hours, at(4, '23:00'))).toEqual({ open: true, label: 'Open until 2:00' });
+    expect(evaluateOpeningHours(hours, at(5, '01:30'))).toEqual({ open: true, label: 'Open until 2:00' });
+    expect(evaluateOpeningHours(hours, at(5, '03:00'))?.open).toBe(false);
+  });
+
+  it('labels round-the-clock places and spans ending at 24:00', () => {
+    expect(evaluateOpeningHours('24/7', at(2, '03:00'))).toEqual({ open: true, label: 'Open 24 hours' });
+    expect(evaluateOpeningHours('Mo-Fr 09:00-24:00', at(0, '12:00'))).toEqual({ open: true, label: 'Open until midnight' });
+  });
+
+  it('applies PH rules on holidays', () => {
+    const hours = 'Mo-Fr 09:00-18:00; PH off';
+    const isPublicHoliday = (day: Date) => day.getTime() === MONDAY;
+    expect(evaluateOpeningHours(hours, at(0, '10:00'), { isPublicHoliday })).toEqual({ open: false, label: 'Opens tomorrow at 9:00' });
+    expect(evaluateOpeningHours(hours, at(1, '10:00'), { isPublicHoliday })).toEqual({ open: true, label: 'Open until 18:00' });
+    expect(evaluateOpeningHours('Mo-Fr 09:00-18:00; PH 10:00-14:00', at(0, '15:00'), { isPublicHoliday })?.open).toBe(false);
+  });
+
+  it('warns that holiday hours may differ when no holidays are known', () => {
+    expect(evaluateOpeningHours('Mo-Fr 09:00-18:00; PH off', at(0, '10:00'))).toEqual({
+      open: true,
+      label: 'Open until 18:00 (hours may differ on holidays)'
+    });
+    expect(evaluateOpeningHours('Mo-Fr 09:00-18:00', at(0, '10:00'))?.label).toBe('Open until 18:00');
+  });
+
+  it('returns null for grammar it does not support', () => {
+    expect(parseOpeningHours('Mo-Fr 09:00-18:00; week 1-10 off')).toBeNull();
+    expect(evaluateOpeningHours('sunrise-sunset', at(0, '10:00'))).toBeNull();
+    expect(evaluateOpeningHours('Jan-Mar Mo 10:00-12:00', at(0, '10:00'))).toBeNull();
+  });
+});
+
+describe('openingStatus', () => {
+  it('uses VITE_PUBLIC_HOLIDAYS for PH rules', async () => {
+    vi.stubEnv('VITE_PUBLIC_HOLIDAYS', '2026-01-26');
+    const { openingStatus } = await import('./openingHours');
+    vi.spyOn(Date.prototype, 'getTimezoneOffset').mockReturnValue(0);
+    const place = { lat: 51.5, lon: 0, display_name: 'Shop', tags: { opening_hours: 'Mo-Fr 09:00-18:00; PH off' } };
+
+    expect(openingStatus(place, new Date(Date.UTC(2026, 0, 26, 10)))?.open).toBe(false);
+    expect(openingStatus(place, new Date(Date.UTC(2026, 0, 27, 10)))).toEqual({ open: true, label: 'Open until 18:00' });
+  });
+});
+
+describe('localClockAt', () => {
+  // 00:30 UTC on Monday
+  const now = new Date(MONDAY + 30 * 60 * 1000);
+
+  it("prefers the place's timezone tag", () => {
+    vi.spyOn(Date.prototype, 'getTimezoneOffset').mockReturnValue(0);
+    const clock = localClockAt({ lat: 35.68, lon: 139.77, display_name: 'Tokyo', tags: { timezone: 'Asia/Tokyo' } }, now);
+    expect(clock).toEqual({ day: new Date(MONDAY), minutes: 9 * 60 + 30 });
+  });
+
+  it('estimates the zone from the longitude for places far from the browser', () => {
+    vi.spyOn(Date.prototype, 'getTimezoneOffset').mockReturnValue(0);
+    // 139.77° east rounds to UTC+9:30, half an hour off the real zone
+    const clock = localClockAt({ lat: 35.68, lon: 139.77, display_name: 'Tokyo' }, now);
+    expect(clock).toEqual({ day: new Date(MONDAY), minutes: 10 * 60 });
+  });
+
+  it("uses the browser's zone for nearby places", () => {
+    // UTC+5:30, as getTimezoneOffset reports it
+    vi.spyOn(Date.prototype, 'getTimezoneOffset').mockReturnValue(-330);
+    const clock = localClockAt({ lat: 18.52, lon: 73.86, display_name: 'Pune' }, now);
+    expect(clock).toEqual({ day: new Date(MONDAY), minutes: 6 * 60 });
+  });
+
+  it('falls back to the estimate when the timezone tag is not a zone', () => {
+    vi.spyOn(Date.prototype, 'getTimezoneOffset').mockReturnValue(0);
+    const clock = localClockAt({ lat: 35.68, lon: 139.77, display_name: 'Tokyo', tags: { timezone: 'Mars/Olympus' } }, now);
+    expect(clock.minutes).toBe(10 * 60);
+  });
+});
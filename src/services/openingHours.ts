@@ -0,0 +1,261 @@
+import type { Location } from './search';
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MINUTES = 24 * 60;
+const LOOKAHEAD_DAYS = 7;
+const HOLIDAY_CAVEAT = 'hours may differ on holidays';
+
+// OSM hours say what happens on PH but not which days those are; VITE_PUBLIC_HOLIDAYS lists them as YYYY-MM-DD
+const PUBLIC_HOLIDAYS = new Set(
+  (import.meta.env.VITE_PUBLIC_HOLIDAYS ?? '').split(',').map((date: string) => date.trim()).filter(Boolean)
+);
+
+interface Rule {
+  // Weekday indexes (Mo = 0) the rule applies to, or 'all' when it has no day selector
+  days: number[] | 'all';
+  publicHoliday: boolean;
+  // Minute spans from local midnight; an end past 1440 spills into the next day
+  spans: [number, number][];
+}
+
+// Wall-clock time at the place itself, independent of the browser's zone
+export interface LocalClock {
+  // UTC midnight of the local calendar day
+  day: Date;
+  minutes: number;
+}
+
+export interface OpeningStatus {
+  open: boolean;
+  label: string;
+}
+
+interface EvaluationOptions {
+  isPublicHoliday?: (day: Date) => boolean;
+}
+
+function parseTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) throw new Error(`Invalid time: ${value}`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseSpans(value: string): [number, number][] {
+  if (value === '' || value === 'open') return [[0, DAY_MINUTES]];
+  if (value === 'off' || value === 'closed') return [];
+
+  return value.split(',').map(part => {
+    const span = part.trim();
+    // Open-ended "17:00+" is treated as open until midnight
+    if (span.endsWith('+')) return [parseTime(span.slice(0, -1)), DAY_MINUTES];
+
+    const [from, to] = span.split('-');
+    if (!to) throw new Error(`Invalid time span: ${span}`);
+    const start = parseTime(from.trim());
+    let end = parseTime(to.trim());
+    // "22:00-02:00" runs overnight
+    if (end <= start) end += DAY_MINUTES;
+    return [start, end];
+  });
+}
+
+function parseDaySelector(selector: string): Pick<Rule, 'days' | 'publicHoliday'> {
+  if (!selector) return { days: 'all', publicHoliday: false };
+
+  const days = new Set<number>();
+  let publicHoliday = false;
+  selector.split(',').forEach(part => {
+    const token = part.trim();
+    if (token === 'PH') {
+      publicHoliday = true;
+      return;
+    }
+    const [from, to = from] = token.split('-');
+    const start = WEEKDAYS.indexOf(from);
+    const end = WEEKDAYS.indexOf(to);
+    if (start < 0 || end < 0) throw new Error(`Invalid day selector: ${token}`);
+    // Ranges may wrap around the week, e.g. "Fr-Mo"
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  });
+  return { days: Array.from(days), publicHoliday };
+}
+
+const RULE_PATTERN = /^((?:(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?\s*,\s*)*(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?)?\s*(.*)$/;
+
+function parseRule(rule: string): Rule {
+  if (rule === '24/7') return { days: 'all', publicHoliday: false, spans: [[0, DAY_MINUTES]] };
+
+  const [, selector = '', times] = RULE_PATTERN.exec(rule)!;
+  return { ...parseDaySelector(selector.replace(/\s+/g, '')), spans: parseSpans(times.trim()) };
+}
+
+// Parses the common subset of the OSM opening_hours grammar; null when the value uses anything else
+export function parseOpeningHours(value: string): Rule[] | null {
+  try {
+    const rules = value
+      .replace(/"[^"]*"/g, '')
+      .split(/;|\|\|/)
+      .map(rule => rule.trim())
+      .filter(Boolean)
+      .map(parseRule);
+    return rules.length ? rules : null;
+  } catch {
+    return null;
+  }
+}
+
+function addDays(day: Date, count: number): Date {
+  return new Date(day.getTime() + count * DAY_MINUTES * 60000);
+}
+
+function weekday(day: Date): number {
+  return (day.getUTCDay() + 6) % 7;
+}
+
+// Later rules override earlier ones for the days they select
+function ruleForDay(rules: Rule[], day: Date, options: EvaluationOptions): Rule | undefined {
+  const holiday = options.isPublicHoliday?.(day) ?? false;
+  return rules.filter(rule =>
+    rule.days === 'all' || rule.days.includes(weekday(day)) || (rule.publicHoliday && holiday)
+  ).pop();
+}
+
+function spansForDay(rules: Rule[], day: Date, options: EvaluationOptions): [number, number][] {
+  const own = ruleForDay(rules, day, options)?.spans
+    .map(([start, end]): [number, number] => [start, Math.min(end, DAY_MINUTES)]) ?? [];
+  const spillover = ruleForDay(rules, addDays(day, -1), options)?.spans
+    .filter(([, end]) => end > DAY_MINUTES)
+    .map(([, end]): [number, number] => [0, end - DAY_MINUTES]) ?? [];
+  return [...spillover, ...own];
+}
+
+// Flattens the coming week into merged spans measured in minutes from today's midnight
+function upcomingSpans(rules: Rule[], clock: LocalClock, options: EvaluationOptions): [number, number][] {
+  const spans: [number, number][] = [];
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    spansForDay(rules, addDays(clock.day, offset), options).forEach(([start, end]) => {
+      spans.push([start + offset * DAY_MINUTES, end + offset * DAY_MINUTES]);
+    });
+  }
+
+  spans.sort((a, b) => a[0] - b[0]);
+  return spans.reduce<[number, number][]>((merged, span) => {
+    const last = merged[merged.length - 1];
+    if (last && span[0] <= last[1]) {
+      last[1] = Math.max(last[1], span[1]);
+    } else {
+      merged.push([...span]);
+    }
+    return merged;
+  }, []);
+}
+
+function formatTime(minutes: number): string {
+  const time = minutes % DAY_MINUTES;
+  // "until 0:00" reads like a mistake for a span ending at 24:00
+  if (time === 0) return 'midnight';
+  return `${Math.floor(time / 60)}:${String(time % 60).padStart(2, '0')}`;
+}
+
+function statusAt(rules: Rule[], clock: LocalClock, options: EvaluationOptions): OpeningStatus {
+  const spans = upcomingSpans(rules, clock, options);
+  const current = spans.find(([start, end]) => start <= clock.minutes && clock.minutes < end);
+
+  if (current) {
+    if (current[1] >= (LOOKAHEAD_DAYS + 1) * DAY_MINUTES) return { open: true, label: 'Open 24 hours' };
+    return { open: true, label: `Open until ${formatTime(current[1])}` };
+  }
+
+  const next = spans.find(([start]) => start > clock.minutes);
+  if (!next) return { open: false, label: 'Closed' };
+
+  const dayOffset = Math.floor(next[0] / DAY_MINUTES);
+  const when = dayOffset === 0
+    ? ''
+    : dayOffset === 1
+      ? 'tomorrow '
+      : `${WEEKDAY_LABELS[weekday(addDays(clock.day, dayOffset))]} `;
+  return { open: false, label: `Opens ${when}at ${formatTime(next[0])}` };
+}
+
+// Without a holiday source PH rules cannot apply, so the label says the hours are the ordinary ones
+export function evaluateOpeningHours(
+  value: string,
+  clock: LocalClock,
+  options: EvaluationOptions = {}
+): OpeningStatus | null {
+  const rules = parseOpeningHours(value);
+  if (!rules) return null;
+
+  const status = statusAt(rules, clock, options);
+  if (options.isPublicHoliday || !rules.some(rule => rule.publicHoliday)) return status;
+  return { ...status, label: `${status.label} (${HOLIDAY_CAVEAT})` };
+}
+
+// The clock's day is UTC midnight of the local date, so its ISO date is the local one
+function isConfiguredHoliday(day: Date): boolean {
+  return PUBLIC_HOLIDAYS.has(day.toISOString().slice(0, 10));
+}
+
+function clockFromShifted(shifted: Date): LocalClock {
+  return {
+    day: new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate())),
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+  };
+}
+
+function clockInTimeZone(now: Date, timeZone: string): LocalClock | null {
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23'
+      }).formatToParts(now).map(part => [part.type, part.value])
+    );
+    return clockFromShifted(new Date(Date.UTC(
+      Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute)
+    )));
+  } catch {
+    return null;
+  }
+}
+
+// Uses the place's `timezone` tag when present. Otherwise the browser's zone is assumed for
+// nearby results and a longitude estimate for places clearly in another zone.
+export function localClockAt(location: Location, now = new Date()): LocalClock {
+  const timeZone = location.tags?.timezone;
+  const zoned = timeZone ? clockInTimeZone(now, timeZone) : null;
+  if (zoned) return zoned;
+
+  const browserOffset = -now.getTimezoneOffset();
+  const longitudeOffset = (location.lon / 15) * 60;
+  const offset = Math.abs(browserOffset - longitudeOffset) <= 120
+    ? browserOffset
+    : Math.round(longitudeOffset / 30) * 30;
+  return clockFromShifted(new Date(now.getTime() + offset * 60000));
+}
+
+export function openingStatus(location: Location, now = new Date()): OpeningStatus | null {
+  const value = location.tags?.opening_hours;
+  if (!value) return null;
+  return evaluateOpeningHours(
+    value,
+    localClockAt(location, now),
+    PUBLIC_HOLIDAYS.size ? { isPublicHoliday: isConfiguredHoliday } : {}
+  );
+}
+
+// Drops places known to be closed; places without parseable hours are kept, and the ranking's
+// filters signal scores them below open ones
+export function filterOpenNow(locations: Location[], now = new Date()): Location[] {
+  return locations.filter(location => openingStatus(location, now)?.open ?? true);
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockUpstreams } from '../../server/mockUpstreams';
+import { buildOverpassQuery, buildPositionsQuery, searchOverpass } from './overpass';
+import { distanceInMeters } from './spatial';
+
+const cafe = [{ key: 'amenity', value: 'cafe' }];
+const center = { latitude: 18.52, longitude: 73.86 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function stubOverpass(elements: unknown[]) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => Response.json({ elements }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('buildOverpassQuery', () => {
+  it('searches around a point', () => {
+    expect(buildOverpassQuery(cafe, { type: 'around', center, radius: 1499.6 })).toBe([
+      '[out:json][timeout:25];',
+      'nwr["amenity"="cafe"](around:1500,18.52,73.86);',
+      'out center tags 50;'
+    ].join('\n'));
+  });
+
+  it('searches a bounding box in south, west, north, east order', () => {
+    expect(buildOverpassQuery(cafe, { type: 'bbox', bbox: [18.4, 73.7, 18.6, 73.9] }, 10))
+      .toContain('nwr["amenity"="cafe"](18.4,73.7,18.6,73.9);\nout center tags 10;');
+  });
+
+  it('writes polygons as lat lon pairs', () => {
+    const polygon: [number, number][] = [[73.8, 18.5], [73.9, 18.5], [73.9, 18.6], [73.8, 18.5]];
+    expect(buildOverpassQuery(cafe, { type: 'polygon', polygon }))
+      .toContain('(poly:"18.5 73.8 18.5 73.9 18.6 73.9 18.5 73.8")');
+  });
+
+  it('searches around every point of a corridor', () => {
+    const line: [number, number][] = [[73.86, 18.52], [74.0, 18.7], [77.0, 27.2]];
+    expect(buildOverpassQuery(cafe, { type: 'corridor', line, radius: 1000 }))
+      .toContain('(around:1000,18.52,73.86,18.7,74,27.2,77)');
+  });
+
+  it('requires every key and any of several values for one key', () => {
+    const query = buildOverpassQuery(
+      [{ key: 'amenity', value: 'restaurant' }, { key: 'amenity', value: 'fast_food' }, { key: 'cuisine', value: 'pizza' }],
+      { type: 'around', center, radius: 1000 }
+    );
+    expect(query).toContain('nwr["amenity"~"^(restaurant|fast_food)$"]["cuisine"="pizza"](around');
+  });
+
+  it('escapes regex characters and quotes in alternatives', () => {
+    const query = buildOverpassQuery(
+      [{ key: 'brand', value: 'C++ "Cafe"' }, { key: 'brand', value: 'A.B' }],
+      { type: 'around', center, radius: 1000 }
+    );
+    expect(query).toContain('["brand"~"^(C\\\\+\\\\+ \\"Cafe\\"|A\\\\.B)$"]');
+  });
+
+  it('matches any value for a wildcard', () => {
+    expect(buildOverpassQuery([{ key: 'shop', value: '*' }], { type: 'around', center, radius: 1000 }))
+      .toContain('nwr["shop"](around');
+  });
+});
+
+describe('buildPositionsQuery', () => {
+  it('asks only for positions', () => {
+    expect(buildPositionsQuery(cafe, [18.4, 73.7, 18.6, 73.9], 5000)).toContain('out skel center qt 5000;');
+  });
+});
+
+describe('searchOverpass', () => {
+  it('uses the centre of ways and relations and drops elements without a position', async () => {
+    stubOverpass([
+      { type: 'node', id: 1, lat: 18.5, lon: 73.8, tags: { amenity: 'cafe', name: 'Node Cafe' } },
+      { type: 'way', id: 2, center: { lat: 18.6, lon: 73.9 }, tags: { amenity: 'cafe', 'addr:street': 'FC Road', 'addr:housenumber': '12', 'addr:city': 'Pune' } },
+      { type: 'relation', id: 3, center: { lat: 18.7, lon: 74.0 }, tags: { amenity: 'cafe', name: 'Campus' } },
+      { type: 'way', id: 4, tags: { amenity: 'cafe' } }
+    ]);
+
+    const locations = await searchOverpass(cafe, { type: 'around', center, radius: 1000 });
+    expect(locations.map(({ osm_type, osm_id, lat, lon, display_name }) => ({ osm_type, osm_id, lat, lon, display_name }))).toEqual([
+      { osm_type: 'node', osm_id: 1, lat: 18.5, lon: 73.8, display_name: 'Node Cafe' },
+      { osm_type: 'way', osm_id: 2, lat: 18.6, lon: 73.9, display_name: 'cafe, 12 FC Road, Pune' },
+      { osm_type: 'relation', osm_id: 3, lat: 18.7, lon: 74.0, display_name: 'Campus' }
+    ]);
+  });
+
+  it('posts the query as form data', async () => {
+    const fetch = stubOverpass([]);
+    await searchOverpass(cafe, { type: 'around', center, radius: 1000 });
+    const body = fetch.mock.calls[0][1]?.body as URLSearchParams;
+    expect(body.get('data')).toBe(buildOverpassQuery(cafe, { type: 'around', center, radius: 1000 }));
+  });
+
+  it('runs against the local Overpass stand-in', async () => {
+    const { overpass } = createMockUpstreams();
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+      const response = await overpass({ method: 'POST', path: '', query: '', body: Buffer.from(String(init?.body)), apiBase: '' });
+      return new Response(response.body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+    }));
+
+    const locations = await searchOverpass(cafe, { type: 'around', center, radius: 1000 });
+    expect(locations.length).toBeGreaterThan(0);
+    locations.forEach(location => {
+      expect(location.tags?.amenity).toBe('cafe');
+      expect(distanceInMeters({ lat: center.latitude, lon: center.longitude }, location)).toBeLessThanOrEqual(1000);
+    });
+  });
+
+  it('throws when Overpass fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('busy', { status: 429 })));
+    await expect(searchOverpass(cafe, { type: 'around', center, radius: 1000 })).rejects.toThrow('429');
+  });
+});
@@ -0,0 +1,144 @@
+import { API_URL } from './api';
+import type { Coordinates, OsmTag } from './parsedQuery';
+import type { Location } from './search';
+import type { BoundingBox, SpatialFilter } from './spatial';
+
+const OVERPASS_URL = `${API_URL}/search/overpass`;
+const RESULT_LIMIT = 50;
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+interface OverpassResponse {
+  elements: OverpassElement[];
+}
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Tags on different keys must all match; several values for one key are alternatives
+function compileTagFilters(tags: OsmTag[]): string {
+  const byKey = new Map<string, string[]>();
+  tags.forEach(({ key, value }) => {
+    byKey.set(key, [...(byKey.get(key) ?? []), value]);
+  });
+
+  return Array.from(byKey.entries())
+    .map(([key, values]) => {
+      if (values.includes('*')) return `["${escapeValue(key)}"]`;
+      if (values.length === 1) return `["${escapeValue(key)}"="${escapeValue(values[0])}"]`;
+      const pattern = values.map(escapeRegex).join('|');
+      return `["${escapeValue(key)}"~"^(${escapeValue(pattern)})$"]`;
+    })
+    .join('');
+}
+
+function compileSpatialFilter(filter: SpatialFilter): string {
+  if (filter.type === 'around') {
+    const { latitude, longitude } = filter.center;
+    return `(around:${Math.round(filter.radius)},${latitude},${longitude})`;
+  }
+  if (filter.type === 'polygon') {
+    return `(poly:"${filter.polygon.map(([lon, lat]) => `${lat} ${lon}`).join(' ')}")`;
+  }
+  if (filter.type === 'corridor') {
+    // With several points `around` measures from the line joining them
+    return `(around:${Math.round(filter.radius)},${filter.line.map(([lon, lat]) => `${lat},${lon}`).join(',')})`;
+  }
+  return `(${filter.bbox.join(',')})`;
+}
+
+export function buildOverpassQuery(tags: OsmTag[], filter: SpatialFilter, limit = RESULT_LIMIT): string {
+  return [
+    '[out:json][timeout:25];',
+    `nwr${compileTagFilters(tags)}${compileSpatialFilter(filter)};`,
+    `out center tags ${limit};`
+  ].join('\n');
+}
+
+export function displayName(tags: Record<string, string>, fallbackTag: OsmTag): string {
+  const address = [
+    [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' '),
+    tags['addr:city']
+  ].filter(Boolean);
+  const name = tags.name ?? fallbackTag.value.replace(/_/g, ' ');
+  return [name, ...address].join(', ');
+}
+
+function toLocation(element: OverpassElement, fallbackTag: OsmTag): Location | null {
+  const lat = element.lat ?? element.center?.lat;
+  const lon = element.lon ?? element.center?.lon;
+  if (lat === undefined || lon === undefined) return null;
+
+  const tags = element.tags ?? {};
+  return {
+    lat,
+    lon,
+    display_name: displayName(tags, fallbackTag),
+    osm_type: element.type,
+    osm_id: element.id,
+    tags
+  };
+}
+
+async function runQuery(query: string, fallbackTag: OsmTag): Promise<Location[]> {
+  const response = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ data: query })
+  });
+
+  if (!response.ok) throw new Error(`Overpass request failed: ${response.status}`);
+  const data: OverpassResponse = await response.json();
+
+  return data.elements
+    .map(element => toLocation(element, fallbackTag))
+    .filter((location): location is Location => location !== null);
+}
+
+export function searchOverpass(tags: OsmTag[], filter: SpatialFilter): Promise<Location[]> {
+  return runQuery(buildOverpassQuery(tags, filter), tags[0]);
+}
+
+// Positions only, for counting: skipping tags keeps thousands of elements small
+export function buildPositionsQuery(tags: OsmTag[], bbox: BoundingBox, limit: number): string {
+  return [
+    '[out:json][timeout:60];',
+    `nwr${compileTagFilters(tags)}${compileSpatialFilter({ type: 'bbox', bbox })};`,
+    `out skel center qt ${limit};`
+  ].join('\n');
+}
+
+export function searchOverpassPositions(tags: OsmTag[], bbox: BoundingBox, limit: number): Promise<Location[]> {
+  return runQuery(buildPositionsQuery(tags, bbox, limit), tags[0]);
+}
+
+// Keys that make a named feature worth listing as a point of interest
+export const POI_KEYS = ['amenity', 'shop', 'tourism', 'leisure', 'historic'];
+
+export function buildNearbyQuery(center: Coordinates, radius: number, limit = RESULT_LIMIT): string {
+  const around = compileSpatialFilter({ type: 'around', center, radius });
+  return [
+    '[out:json][timeout:25];',
+    '(',
+    ...POI_KEYS.map(key => `  nwr["${key}"]["name"]${around};`),
+    ');',
+    `out center tags ${limit};`
+  ].join('\n');
+}
+
+// Named points of interest of any kind around a point
+export function searchNearby(center: Coordinates, radius: number): Promise<Location[]> {
+  return runQuery(buildNearbyQuery(center, radius), { key: 'name', value: 'place' });
+}
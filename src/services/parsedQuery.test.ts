@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { radiusInMeters, toParsedQuery } from './parsedQuery';
+
+const pune = { latitude: 18.52, longitude: 73.86 };
+
+describe('toParsedQuery', () => {
+  it('keeps a valid parse and drops nulls the LLM filled in', () => {
+    const parsed = toParsedQuery(
+      { searchTerm: 'cafes', location: { area: 'Pune', radius: null }, osmTags: [{ key: 'amenity', value: 'cafe' }] },
+      'cafes in Pune'
+    );
+    expect(parsed).toEqual({ searchTerm: 'cafes', location: { area: 'Pune' }, osmTags: [{ key: 'amenity', value: 'cafe' }] });
+  });
+
+  it("pins the user's position when no area was given", () => {
+    const parsed = toParsedQuery({ searchTerm: 'atm' }, 'atm', pune);
+    expect(parsed.location?.coordinates).toEqual(pune);
+  });
+
+  it('leaves a named area alone', () => {
+    const parsed = toParsedQuery({ searchTerm: 'atm', location: { area: 'Delhi' } }, 'atm in Delhi', pune);
+    expect(parsed.location).toEqual({ area: 'Delhi' });
+  });
+
+  it('falls back to the bare query when the output does not validate', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(toParsedQuery({ searchTerm: 42 }, 'something odd', pune)).toEqual({
+      searchTerm: 'something odd',
+      location: { coordinates: pune }
+    });
+  });
+});
+
+describe('radiusInMeters', () => {
+  it('converts miles and kilometres', () => {
+    expect(radiusInMeters({ searchTerm: 'x', location: { radius: { value: 2, unit: 'kilometers' } } })).toBe(2000);
+    expect(radiusInMeters({ searchTerm: 'x', location: { radius: { value: 1, unit: 'miles' } } })).toBeCloseTo(1609.344);
+  });
+});
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const CoordinatesSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number()
+});
+
+const DistanceSchema = z.object({
+  value: z.number().positive(),
+  unit: z.enum(['miles', 'kilometers'])
+});
+
+const TravelModeSchema = z.enum(['walk', 'bike', 'drive']);
+
+// "within a 10 minute walk": reachable area rather than straight-line distance
+const TravelTimeSchema = z.object({
+  minutes: z.number().positive(),
+  mode: TravelModeSchema
+});
+
+// "petrol pumps on the way to Agra": places along the trip rather than around one point
+const RouteSchema = z.object({
+  // Start of the trip; the user's position when absent
+  from: z.string().optional(),
+  to: z.string(),
+  mode: TravelModeSchema.optional(),
+  // How far either side of the road a stop may be
+  width: DistanceSchema.optional()
+});
+
+// One of several places the results should suit, e.g. where each colleague starts from
+const AnchorSchema = z.object({
+  place: z.string(),
+  // Filled in by geocoding before the search
+  coordinates: CoordinatesSchema.optional()
+});
+
+// "halfway between Andheri and Bandra": results should be fair to every anchor rather than near one place
+const MeetingSchema = z.object({
+  anchors: z.array(AnchorSchema).min(2),
+  // Keep the farthest anchor's trip short (fairest) or everyone's trips together (total)
+  objective: z.enum(['fairest', 'total']).optional(),
+  // Compare travel times in this mode; straight-line distances when absent
+  mode: TravelModeSchema.optional()
+});
+
+// Resolved from a route: the [lon, lat] line searched along and its half-width in metres
+const CorridorSchema = z.object({
+  line: z.array(z.tuple([z.number(), z.number()])).min(2),
+  width: z.number().positive()
+});
+
+const OsmTagSchema = z.object({
+  key: z.string(),
+  value: z.string()
+});
+
+// Condition on a property of user-loaded data, e.g. capacity > 500
+const AttributeConditionSchema = z.object({
+  key: z.string(),
+  operator: z.enum(['=', '>', '>=', '<', '<=', '~']),
+  value: z.union([z.string(), z.number()])
+});
+
+// Canonical query contract shared by every LLM provider and search backend
+export const ParsedQuerySchema = z.object({
+  searchTerm: z.string(),
+  location: z.object({
+    area: z.string().optional(),
+    coordinates: CoordinatesSchema.optional(),
+    radius: DistanceSchema.optional(),
+    travelTime: TravelTimeSchema.optional(),
+    route: RouteSchema.optional(),
+    meeting: MeetingSchema.optional(),
+    corridor: CorridorSchema.optional(),
+    // Closed ring of [lon, lat] pairs, set from a shape drawn on the map
+    polygon: z.array(z.tuple([z.number(), z.number()])).min(3).optional()
+  }).optional(),
+  osmTags: z.array(OsmTagSchema).optional(),
+  attributes: z.array(AttributeConditionSchema).optional(),
+  context: z.object({
+    type: z.enum(['restaurant', 'hotel', 'cafe', 'park', 'landmark', 'store', 'other']).optional(),
+    filters: z.object({
+      cuisine: z.string().array().optional(),
+      priceRange: z.enum(['low', 'medium', 'high', 'luxury']).optional(),
+      openNow: z.boolean().optional(),
+      rating: z.number().min(0).max(5).optional(),
+      amenities: z.string().array().optional()
+    }).optional()
+  }).optional()
+});
+
+export type ParsedQuery = z.infer<typeof ParsedQuerySchema>;
+export type OsmTag = z.infer<typeof OsmTagSchema>;
+export type Distance = z.infer<typeof DistanceSchema>;
+export type TravelMode = z.infer<typeof TravelModeSchema>;
+export type TravelTime = z.infer<typeof TravelTimeSchema>;
+export type RouteQuery = z.infer<typeof RouteSchema>;
+export type Corridor = z.infer<typeof CorridorSchema>;
+export type Anchor = z.infer<typeof AnchorSchema>;
+export type Meeting = z.infer<typeof MeetingSchema>;
+export type AttributeCondition = z.infer<typeof AttributeConditionSchema>;
+export type Ring = [number, number][];
+
+const DEFAULT_RADIUS_KM = 5;
+
+// LLMs like to emit `null` for fields they could not fill; zod expects them absent
+export function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNulls);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, stripNulls(v)])
+    );
+  }
+  return value;
+}
+
+export function fallbackQuery(query: string, userLocation?: Coordinates, osmTags?: OsmTag[]): ParsedQuery {
+  return {
+    searchTerm: query,
+    ...(userLocation && { location: { coordinates: userLocation } }),
+    ...(osmTags?.length && { osmTags })
+  };
+}
+
+// Validates raw provider output and pins the user's position when no explicit area was given
+export function toParsedQuery(raw: unknown, query: string, userLocation?: Coordinates): ParsedQuery {
+  const validation = ParsedQuerySchema.safeParse(stripNulls(raw));
+
+  if (!validation.success) {
+    console.warn('Validation errors:', validation.error.format());
+    return fallbackQuery(query, userLocation);
+  }
+
+  const parsed = validation.data;
+  if (userLocation && !parsed.location?.area && !parsed.location?.coordinates && !parsed.location?.polygon) {
+    return {
+      ...parsed,
+      location: { ...parsed.location, coordinates: userLocation }
+    };
+  }
+  return parsed;
+}
+
+export function toMeters({ value, unit }: Distance): number {
+  return unit === 'miles' ? value * 1609.344 : value * 1000;
+}
+
+export function radiusInMeters(parsedQuery: ParsedQuery): number {
+  const radius = parsedQuery.location?.radius;
+  return radius ? toMeters(radius) : DEFAULT_RADIUS_KM * 1000;
+}
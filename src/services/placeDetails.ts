@@ -0,0 +1,98 @@
+import { nominatim } from './nominatim';
+import { categoryOf } from './categories';
+import type { Category } from './categories';
+import type { SearchResult } from './mistral';
+import type { NominatimAddress, NominatimOsmType } from './nominatim';
+import type { Location } from './search';
+
+export interface PlaceDetails {
+  name: string;
+  category: Category;
+  // Most specific first: street, locality, region, country
+  address: string[];
+  phone?: string;
+  website?: string;
+  email?: string;
+  openingHours?: string;
+  cuisine: string[];
+  wheelchair?: string;
+  // Everything else worth showing, as [key, value] pairs
+  otherTags: [string, string][];
+  osmUrl?: string;
+}
+
+const OSM_TYPES: NominatimOsmType[] = ['node', 'way', 'relation'];
+
+// Keys already shown in their own field, or of no use to a reader
+const HIDDEN_TAGS = /^(name|name:.*|.*_name|addr:.*|contact:.*|phone|website|url|email|opening_hours|cuisine|wheelchair|source.*|note.*|fixme|check_date.*|wikidata|wikipedia|ref:.*|survey.*|created_by)$/;
+
+export function osmUrl({ osm_type, osm_id }: Pick<SearchResult, 'osm_type' | 'osm_id'>): string {
+  return `https://www.openstreetmap.org/${osm_type}/${osm_id}`;
+}
+
+function joinParts(...parts: (string | undefined)[]): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+export function addressFromNominatim(address: NominatimAddress): string[] {
+  return [
+    joinParts(address.house_number, address.road),
+    address.neighbourhood ?? address.suburb,
+    joinParts(address.city ?? address.town ?? address.village, address.postcode),
+    address.state,
+    address.country
+  ].filter((line): line is string => Boolean(line));
+}
+
+// Overpass and Elasticsearch results carry the addr:* tags but no Nominatim address
+function addressFromTags(tags: Record<string, string>): string[] {
+  return [
+    joinParts(tags['addr:housenumber'], tags['addr:street']),
+    tags['addr:suburb'],
+    joinParts(tags['addr:city'], tags['addr:postcode']),
+    tags['addr:state'],
+    tags['addr:country']
+  ].filter(Boolean);
+}
+
+function toDetails(location: Location, tags: Record<string, string>, address: string[]): PlaceDetails {
+  const hasOsmId = OSM_TYPES.includes(location.osm_type as NominatimOsmType) && location.osm_id !== undefined;
+  return {
+    name: tags.name ?? location.display_name.split(',')[0],
+    category: categoryOf({ ...location, tags }),
+    address,
+    phone: tags.phone ?? tags['contact:phone'],
+    website: tags.website ?? tags['contact:website'] ?? tags.url,
+    email: tags.email ?? tags['contact:email'],
+    openingHours: tags.opening_hours,
+    cuisine: tags.cuisine?.split(';').map(value => value.trim().replace(/_/g, ' ')) ?? [],
+    wheelchair: tags.wheelchair,
+    otherTags: Object.entries(tags)
+      .filter(([key]) => !HIDDEN_TAGS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b)),
+    ...(hasOsmId && { osmUrl: osmUrl({ osm_type: location.osm_type!, osm_id: location.osm_id! }) })
+  };
+}
+
+// Fetches the full OSM element behind a result; results from the user's own layers are described from their properties
+export async function fetchPlaceDetails(location: Location): Promise<PlaceDetails> {
+  const tags = location.tags ?? {};
+  const osmType = location.osm_type as NominatimOsmType;
+  if (!OSM_TYPES.includes(osmType) || location.osm_id === undefined) {
+    return toDetails(location, tags, addressFromTags(tags));
+  }
+
+  const [place] = await nominatim.lookup(
+    [{ osm_type: osmType, osm_id: location.osm_id }],
+    { extratags: 1, addressdetails: 1, namedetails: 1 }
+  );
+  const merged: Record<string, string> = {
+    ...tags,
+    // Nominatim reports the main tag (amenity=cafe) as class and type rather than in extratags
+    ...(place?.class && place.type && { [place.class]: place.type }),
+    ...place?.extratags,
+    ...(place?.namedetails?.name && { name: place.namedetails.name })
+  };
+  const address = place?.address ? addressFromNominatim(place.address) : addressFromTags(merged);
+  return toDetails(location, merged, address);
+}
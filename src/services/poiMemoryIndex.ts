@@ -0,0 +1,149 @@
+import { distanceInMeters, pointInPolygon } from './spatial';
+import { editDistance, tokenize } from './text';
+import type { estypes } from '@elastic/elasticsearch';
+import type { PoiDocument, PoiSearchTransport } from './elasticsearch';
+
+type Query = estypes.QueryDslQueryContainer;
+
+// Score of a document against a query, or null when it does not match
+type Match = number | null;
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function fieldValue(document: PoiDocument, field: string): unknown {
+  if (field.startsWith('tags.')) return document.tags[field.slice(5)];
+  return (document as unknown as Record<string, unknown>)[field.replace(/\.keyword$/, '')];
+}
+
+function parseDistance(distance: string | number): number {
+  if (typeof distance === 'number') return distance;
+  const match = /^([\d.]+)\s*(m|km|mi)?$/.exec(distance);
+  if (!match) return 0;
+  const value = Number(match[1]);
+  if (match[2] === 'km') return value * 1000;
+  if (match[2] === 'mi') return value * 1609.344;
+  return value;
+}
+
+// Elasticsearch's AUTO fuzziness: exact up to 2 chars, 1 edit up to 5, 2 edits beyond
+function autoFuzziness(term: string): number {
+  if (term.length <= 2) return 0;
+  return term.length <= 5 ? 1 : 2;
+}
+
+function multiMatch(document: PoiDocument, query: estypes.QueryDslMultiMatchQuery): Match {
+  const terms = tokenize(query.query);
+  let score = 0;
+
+  toArray(query.fields).forEach(spec => {
+    const [field, boost = '1'] = spec.split('^');
+    const words = tokenize(fieldValue(document, field));
+    terms.forEach(term => {
+      const allowed = query.fuzziness === undefined ? 0 : autoFuzziness(term);
+      const best = Math.min(...words.map(word => editDistance(term, word)));
+      if (best <= allowed) score += Number(boost) / (1 + best);
+    });
+  });
+
+  return score > 0 ? score : null;
+}
+
+function geoDistance(document: PoiDocument, query: estypes.QueryDslGeoDistanceQuery): Match {
+  const { distance, location } = query as { distance: string; location: { lat: number; lon: number } };
+  return distanceInMeters(document.location, location) <= parseDistance(distance) ? 0 : null;
+}
+
+function geoBoundingBox(document: PoiDocument, query: estypes.QueryDslGeoBoundingBoxQuery): Match {
+  const { top_left, bottom_right } = (query as unknown as {
+    location: { top_left: { lat: number; lon: number }; bottom_right: { lat: number; lon: number } };
+  }).location;
+  const { lat, lon } = document.location;
+  return lat <= top_left.lat && lat >= bottom_right.lat && lon >= top_left.lon && lon <= bottom_right.lon
+    ? 0
+    : null;
+}
+
+function geoShape(document: PoiDocument, query: estypes.QueryDslGeoShapeQuery): Match {
+  const { shape } = (query as unknown as { location: { shape: { type: string; coordinates: [number, number][][] } } })
+    .location;
+  if (shape.type !== 'polygon') throw new Error(`Unsupported shape: ${shape.type}`);
+  return pointInPolygon(document.location, shape.coordinates[0]) ? 0 : null;
+}
+
+function boolQuery(document: PoiDocument, query: estypes.QueryDslBoolQuery): Match {
+  let score = 0;
+
+  for (const clause of [...toArray(query.must), ...toArray(query.filter)]) {
+    const match = evaluate(document, clause);
+    if (match === null) return null;
+    score += match;
+  }
+  if (toArray(query.must_not).some(clause => evaluate(document, clause) !== null)) return null;
+
+  const should = toArray(query.should).map(clause => evaluate(document, clause));
+  const matched = should.filter((match): match is number => match !== null);
+  const required = Number(query.minimum_should_match ?? (query.must || query.filter ? 0 : 1));
+  if (should.length && matched.length < required) return null;
+
+  return score + matched.reduce((sum, match) => sum + match, 0);
+}
+
+// Evaluates the subset of the query DSL that buildPoiQuery produces
+function evaluate(document: PoiDocument, query: Query): Match {
+  if (query.bool) return boolQuery(document, query.bool);
+  if (query.multi_match) return multiMatch(document, query.multi_match);
+  if (query.geo_distance) return geoDistance(document, query.geo_distance);
+  if (query.geo_bounding_box) return geoBoundingBox(document, query.geo_bounding_box);
+  if (query.geo_shape) return geoShape(document, query.geo_shape);
+  if (query.exists) return fieldValue(document, query.exists.field) !== undefined ? 0 : null;
+  if (query.term) {
+    const [field, expected] = Object.entries(query.term)[0];
+    const value = typeof expected === 'object' && expected !== null ? expected.value : expected;
+    return fieldValue(document, field) === value ? 0 : null;
+  }
+  if (query.terms) {
+    const [field, values] = Object.entries(query.terms)[0];
+    return Array.isArray(values) && values.includes(fieldValue(document, field) as string) ? 0 : null;
+  }
+  if (query.match_all) return 0;
+  throw new Error(`Unsupported query: ${Object.keys(query).join(', ')}`);
+}
+
+// In-memory stand-in for a POI index, for running the Elasticsearch backend without a cluster
+export function createMemoryPoiIndex(documents: PoiDocument[]): PoiSearchTransport & { add(document: PoiDocument): void } {
+  const store = [...documents];
+
+  return {
+    add(document) {
+      store.push(document);
+    },
+    async search(request) {
+      const started = Date.now();
+      const query = request.query ?? { match_all: {} };
+      const matches = store
+        .map((document, index) => ({ document, index, score: evaluate(document, query) }))
+        .filter((hit): hit is { document: PoiDocument; index: number; score: number } => hit.score !== null)
+        .sort((a, b) => b.score - a.score || (b.document.importance ?? 0) - (a.document.importance ?? 0));
+      const hits = matches.slice(request.from ?? 0, (request.from ?? 0) + (request.size ?? 10));
+
+      return {
+        took: Date.now() - started,
+        timed_out: false,
+        _shards: { total: 1, successful: 1, skipped: 0, failed: 0 },
+        hits: {
+          total: { value: matches.length, relation: 'eq' },
+          max_score: hits[0]?.score ?? null,
+          hits: hits.map(hit => ({
+            _index: request.index?.toString() ?? 'memory',
+            _id: String(hit.index),
+            _score: hit.score,
+            _source: hit.document
+          }))
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createApiProvider } from './apiProvider';
+import { createChatProvider } from './llm';
+import { parseSearchQuery, setLLMProvider } from './providers';
+import type { LLMProvider } from './llm';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setLLMProvider(null);
+});
+
+function recordingProvider(): LLMProvider & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    name: 'mock',
+    queries,
+    async parseQuery(query) {
+      queries.push(query);
+      return { searchTerm: `llm: ${query}` };
+    },
+    async refineQuery() {
+      return {};
+    }
+  };
+}
+
+describe('parseSearchQuery', () => {
+  it('answers confident queries from the rules without the LLM', async () => {
+    const provider = recordingProvider();
+    setLLMProvider(provider);
+    const parsed = await parseSearchQuery('hospital in Delhi');
+    expect(parsed.osmTags).toEqual([{ key: 'amenity', value: 'hospital' }]);
+    expect(provider.queries).toEqual([]);
+  });
+
+  it('asks the LLM when the rules are unsure', async () => {
+    const provider = recordingProvider();
+    setLLMProvider(provider);
+    expect(await parseSearchQuery('best biryani for a date night')).toEqual({ searchTerm: 'llm: best biryani for a date night' });
+  });
+});
+
+describe('provider fallback', () => {
+  it('falls back to the rules when the proxy fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 502 })));
+    const parsed = await createApiProvider().parseQuery('cafes in Pune');
+    expect(parsed.osmTags).toEqual([{ key: 'amenity', value: 'cafe' }]);
+    expect(parsed.location?.area).toBe('pune');
+  });
+
+  it('falls back to keyword refinement when the proxy fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    const delta = await createApiProvider().refineQuery({ searchTerm: 'cafes' }, 'open now');
+    expect(delta.filters?.openNow).toBe(true);
+  });
+
+  it('falls back to the rules when an LLM answers with something that is not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = createChatProvider('mock', async () => 'Sure! Here are some cafes.');
+    const parsed = await provider.parseQuery('cafes in Pune');
+    expect(parsed.osmTags).toEqual([{ key: 'amenity', value: 'cafe' }]);
+  });
+
+  it('uses a valid LLM answer', async () => {
+    const provider = createChatProvider('mock', async () => JSON.stringify({ searchTerm: 'biryani', osmTags: [{ key: 'cuisine', value: 'biryani' }] }));
+    const parsed = await provider.parseQuery('best biryani');
+    expect(parsed.searchTerm).toBe('biryani');
+    expect(parsed.osmTags).toContainEqual({ key: 'cuisine', value: 'biryani' });
+  });
+});
@@ -0,0 +1,32 @@
+import { createApiProvider } from './apiProvider';
+import { createMockProvider } from './mock';
+import { parseWithRules } from './ruleParser';
+import type { LLMProvider } from './llm';
+import type { Coordinates, ParsedQuery } from './parsedQuery';
+import type { QueryDelta } from './refinement';
+
+// Rule-based parses at least this confident skip the LLM; set above 1 to always ask the LLM
+const RULE_CONFIDENCE = Number(import.meta.env.VITE_RULE_CONFIDENCE || 0.9);
+
+let provider: LLMProvider | null = null;
+
+// The LLM itself runs on the proxy server (server/llm.ts); only the mock runs in the browser
+export function getLLMProvider(): LLMProvider {
+  provider ??= import.meta.env.VITE_LLM_PROVIDER === 'mock' ? createMockProvider() : createApiProvider();
+  return provider;
+}
+
+// Swaps the active provider, e.g. to run the search pipeline against the mock
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next;
+}
+
+export async function parseSearchQuery(query: string, userLocation?: Coordinates): Promise<ParsedQuery> {
+  const { parsedQuery, confidence } = parseWithRules(query, userLocation);
+  if (confidence >= RULE_CONFIDENCE) return parsedQuery;
+  return getLLMProvider().parseQuery(query, userLocation);
+}
+
+export function refineSearchQuery(previous: ParsedQuery, followUp: string): Promise<QueryDelta> {
+  return getLLMProvider().refineQuery(previous, followUp);
+}
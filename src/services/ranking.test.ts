@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { rankLocations } from './ranking';
+import type { ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+
+const origin = { lat: 18.52, lon: 73.86 };
+const parsedQuery: ParsedQuery = { searchTerm: 'cafe', osmTags: [{ key: 'amenity', value: 'cafe' }] };
+
+// Same name, tags and position; only the backend differs
+function cafe(name: string, extra: Partial<Location> = {}): Location {
+  return { lat: 18.53, lon: 73.86, display_name: `${name}, Pune`, tags: { name, amenity: 'cafe' }, ...extra };
+}
+
+const names = (locations: Location[]) => locations.map(location => location.tags?.name);
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe('rankLocations', () => {
+  it('scores a signal a result lacks as average when other results have it', () => {
+    const overpass = cafe('Cafe Overpass');
+    const ranked = rankLocations([overpass, cafe('Cafe Nominatim', { importance: 0.7 })], parsedQuery, { origin });
+
+    expect(names(ranked)).toEqual(['Cafe Nominatim', 'Cafe Overpass']);
+    expect(ranked[1].ranking?.signals.find(signal => signal.id === 'importance')).toMatchObject({
+      value: 0.5,
+      reason: 'Unknown, counted as average'
+    });
+  });
+
+  it('ranks a below-average importance under a result without one', () => {
+    const ranked = rankLocations([cafe('Cafe Nominatim', { importance: 0.2 }), cafe('Cafe Layer', { layer: 'Cafes' })], parsedQuery, { origin });
+    expect(names(ranked)).toEqual(['Cafe Layer', 'Cafe Nominatim']);
+  });
+
+  it('leaves out signals no result has', () => {
+    const ranked = rankLocations([cafe('Cafe One'), cafe('Cafe Two')], parsedQuery, { origin });
+    expect(ranked[0].ranking?.signals.map(signal => signal.id)).toEqual(['distance', 'tags', 'name']);
+    expect(ranked[0].ranking?.score).toBe(ranked[1].ranking?.score);
+  });
+
+  it('keeps the backend order for ties', () => {
+    expect(names(rankLocations([cafe('Cafe A'), cafe('Cafe B')], parsedQuery))).toEqual(['Cafe A', 'Cafe B']);
+  });
+
+  it('applies weight overrides', () => {
+    const near = cafe('Bean There', { lat: 18.521 });
+    const far = cafe('Cafe', { lat: 18.6 });
+
+    expect(names(rankLocations([near, far], parsedQuery, { origin, weights: { distance: 0 } }))).toEqual(['Cafe', 'Bean There']);
+    const ranked = rankLocations([near, far], parsedQuery, { origin, weights: { distance: 20 } });
+    expect(names(ranked)).toEqual(['Bean There', 'Cafe']);
+    expect(ranked[0].ranking?.signals.find(signal => signal.id === 'distance')?.weight).toBe(20);
+  });
+
+  it('reads weight overrides from VITE_RANKING_WEIGHTS', async () => {
+    vi.stubEnv('VITE_RANKING_WEIGHTS', '{"importance": 0, "name": 5}');
+    const { DEFAULT_RANKING_WEIGHTS, rankLocations: rank } = await import('./ranking');
+
+    expect(DEFAULT_RANKING_WEIGHTS).toMatchObject({ importance: 0, name: 5, distance: 3 });
+    const [first] = rank([cafe('Cafe', { importance: 0.9 })], parsedQuery);
+    expect(first.ranking?.signals.map(signal => signal.id)).not.toContain('importance');
+  });
+});
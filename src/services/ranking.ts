@@ -0,0 +1,265 @@
+import { radiusInMeters } from './parsedQuery';
+import { distanceInMeters } from './spatial';
+import { openingStatus } from './openingHours';
+import { tokenize, wordSimilarity } from './text';
+import { formatDuration } from './routing';
+import type { ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+import type { LatLon } from './spatial';
+
+export interface RankingContext {
+  parsedQuery: ParsedQuery;
+  // Where distance is measured from: the user, or the centre of the named area
+  origin?: LatLon;
+  now: Date;
+}
+
+export interface SignalScore {
+  // 0 (worst) to 1 (best)
+  value: number;
+  reason: string;
+}
+
+export interface RankingSignal {
+  id: string;
+  label: string;
+  // null when the signal does not apply to this query or result. A result gets NEUTRAL_SCORE for a
+  // signal that other results in the list have.
+  score(location: Location, context: RankingContext): SignalScore | null;
+}
+
+export interface SignalContribution extends SignalScore {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+export interface RankingExplanation {
+  rank: number;
+  score: number;
+  signals: SignalContribution[];
+}
+
+export type RankingWeights = Record<string, number>;
+
+// Overrides from VITE_RANKING_WEIGHTS, e.g. {"distance": 5, "importance": 0}
+function configuredWeights(): RankingWeights {
+  try {
+    return JSON.parse(import.meta.env.VITE_RANKING_WEIGHTS || '{}');
+  } catch {
+    console.warn('Ignoring malformed VITE_RANKING_WEIGHTS');
+    return {};
+  }
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  distance: 3,
+  detour: 3,
+  meeting: 3,
+  tags: 2,
+  name: 2,
+  importance: 1,
+  filters: 2,
+  ...configuredWeights()
+};
+
+// How a requested amenity shows up in OSM tags
+export const AMENITY_TAGS: Record<string, { key: string; values?: string[] }> = {
+  wifi: { key: 'internet_access', values: ['yes', 'wlan', 'wifi'] },
+  outdoor_seating: { key: 'outdoor_seating', values: ['yes'] },
+  wheelchair: { key: 'wheelchair', values: ['yes', 'limited'] },
+  parking: { key: 'parking' },
+  'pet-friendly': { key: 'dog', values: ['yes', 'leashed'] }
+};
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+function normalizeAmenity(amenity: string): string {
+  return amenity.toLowerCase().replace(/[\s-]+/g, '_').replace(/^wi_fi$/, 'wifi').replace(/^pet_friendly$/, 'pet-friendly');
+}
+
+// The OSM tag for an amenity the user asked for, e.g. "Wi-Fi" -> internet_access
+export function amenityTag(amenity: string): { key: string; values?: string[] } | undefined {
+  return AMENITY_TAGS[normalizeAmenity(amenity)];
+}
+
+export function hasAmenity(tag: { key: string; values?: string[] }, value: string | undefined): boolean {
+  return value !== undefined && value !== 'no' && (!tag.values || tag.values.includes(value));
+}
+
+const distanceSignal: RankingSignal = {
+  id: 'distance',
+  label: 'Distance',
+  score(location, { parsedQuery, origin }) {
+    if (!origin) return null;
+    const meters = distanceInMeters(origin, location);
+    // Halves in value every search radius
+    const value = Math.pow(0.5, meters / radiusInMeters(parsedQuery));
+    return { value, reason: `${formatDistance(meters)} away` };
+  }
+};
+
+// Halves in value every five minutes added to the trip
+const DETOUR_HALF_LIFE = 5 * 60;
+
+// Searches along a route rank by the time a stop adds, not by how far it is from anywhere
+const detourSignal: RankingSignal = {
+  id: 'detour',
+  label: 'Detour',
+  score(location) {
+    if (location.detour === undefined) return null;
+    const value = Math.pow(0.5, location.detour / DETOUR_HALF_LIFE);
+    return { value, reason: location.detour < 60 ? 'On the way' : `${formatDuration(location.detour)} detour` };
+  }
+};
+
+// Everyone's trip halves the value every 15 minutes, or every two search radii as the crow flies
+const MEETING_HALF_LIFE = 15 * 60;
+
+// Meeting searches rank by the farthest anchor's trip, or by everyone's trips together
+const meetingSignal: RankingSignal = {
+  id: 'meeting',
+  label: 'Fair to all',
+  score(location, { parsedQuery }) {
+    const costs = location.anchorCosts;
+    const meeting = parsedQuery.location?.meeting;
+    if (!costs || !meeting) return null;
+    const total = meeting.objective === 'total';
+    const cost = total ? costs.values.reduce((sum, value) => sum + value, 0) : Math.max(...costs.values);
+    const halfLife = (costs.unit === 'seconds' ? MEETING_HALF_LIFE : 2 * radiusInMeters(parsedQuery))
+      * (total ? costs.values.length : 1);
+    const format = costs.unit === 'seconds' ? formatDuration : formatDistance;
+    return {
+      value: Math.pow(0.5, cost / halfLife),
+      reason: total ? `${format(cost)} for everyone together` : `${format(cost)} for the farthest`
+    };
+  }
+};
+
+const tagSignal: RankingSignal = {
+  id: 'tags',
+  label: 'Tag match',
+  score(location, { parsedQuery }) {
+    const wanted = parsedQuery.osmTags ?? [];
+    if (!wanted.length || !location.tags) return null;
+    const matched = wanted.filter(({ key, value }) =>
+      value === '*' ? location.tags?.[key] !== undefined : location.tags?.[key] === value
+    );
+    return {
+      value: matched.length / wanted.length,
+      reason: matched.length
+        ? `Tagged ${matched.map(({ key, value }) => `${key}=${value}`).join(', ')}`
+        : 'No matching tags'
+    };
+  }
+};
+
+const nameSignal: RankingSignal = {
+  id: 'name',
+  label: 'Name similarity',
+  score(location, { parsedQuery }) {
+    const terms = tokenize(parsedQuery.searchTerm);
+    const name = tokenize(location.tags?.name ?? location.display_name.split(',')[0]);
+    if (!terms.length || !name.length) return null;
+    const value = terms
+      .map(term => Math.max(...name.map(word => wordSimilarity(term, word))))
+      .reduce((sum, similarity) => sum + similarity, 0) / terms.length;
+    return { value, reason: `Name ${Math.round(value * 100)}% similar to "${parsedQuery.searchTerm}"` };
+  }
+};
+
+const importanceSignal: RankingSignal = {
+  id: 'importance',
+  label: 'Prominence',
+  score(location) {
+    if (location.importance === undefined) return null;
+    const value = Math.min(Math.max(location.importance, 0), 1);
+    return { value, reason: `OSM importance ${value.toFixed(2)}` };
+  }
+};
+
+const filterSignal: RankingSignal = {
+  id: 'filters',
+  label: 'Filters',
+  score(location, { parsedQuery, now }) {
+    const filters = parsedQuery.context?.filters;
+    const checks: { satisfied: number; label: string }[] = [];
+
+    filters?.cuisine?.forEach(cuisine => {
+      const served = location.tags?.cuisine?.toLowerCase().split(';') ?? [];
+      checks.push({ satisfied: served.includes(cuisine.toLowerCase()) ? 1 : 0, label: cuisine });
+    });
+    filters?.amenities?.forEach(amenity => {
+      const tag = amenityTag(amenity);
+      if (!tag) return;
+      checks.push({ satisfied: hasAmenity(tag, location.tags?.[tag.key]) ? 1 : 0, label: amenity });
+    });
+    if (filters?.openNow) {
+      const status = openingStatus(location, now);
+      // Unknown hours count for half
+      checks.push({ satisfied: status ? (status.open ? 1 : 0) : 0.5, label: 'open now' });
+    }
+
+    if (!checks.length) return null;
+    const met = checks.filter(check => check.satisfied === 1).map(check => check.label);
+    return {
+      value: checks.reduce((sum, check) => sum + check.satisfied, 0) / checks.length,
+      reason: met.length ? `Matches ${met.join(', ')}` : 'Matches none of the requested filters'
+    };
+  }
+};
+
+export const DEFAULT_RANKING_SIGNALS: RankingSignal[] = [
+  distanceSignal,
+  detourSignal,
+  meetingSignal,
+  tagSignal,
+  nameSignal,
+  importanceSignal,
+  filterSignal
+];
+
+export interface RankingOptions {
+  origin?: LatLon;
+  weights?: RankingWeights;
+  signals?: RankingSignal[];
+  now?: Date;
+}
+
+// What a result scores for a signal it lacks but others have, e.g. importance on an Overpass result,
+// so leaving a signal out neither helps nor hurts
+const NEUTRAL_SCORE = 0.5;
+
+function explain(scores: (SignalScore | null)[], applies: boolean[], signals: RankingSignal[], weights: RankingWeights) {
+  const contributions = signals.flatMap((signal, index) => {
+    const result = scores[index] ?? (applies[index] ? { value: NEUTRAL_SCORE, reason: 'Unknown, counted as average' } : null);
+    return result ? [{ id: signal.id, label: signal.label, weight: weights[signal.id], ...result }] : [];
+  });
+  const totalWeight = contributions.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = totalWeight
+    ? contributions.reduce((sum, signal) => sum + signal.weight * signal.value, 0) / totalWeight
+    : 0;
+  return { score, signals: contributions };
+}
+
+// Orders results by the weighted mean of every signal that applies to any of them; ties keep the backend's order
+export function rankLocations(locations: Location[], parsedQuery: ParsedQuery, options: RankingOptions = {}): Location[] {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.weights };
+  const signals = options.signals ?? DEFAULT_RANKING_SIGNALS;
+  const context: RankingContext = { parsedQuery, origin: options.origin, now: options.now ?? new Date() };
+
+  const scores = locations.map(location =>
+    signals.map(signal => ((weights[signal.id] ?? 0) > 0 ? signal.score(location, context) : null))
+  );
+  const applies = signals.map((_, index) => scores.some(row => row[index] !== null));
+
+  return locations
+    .map((location, index) => ({ location, index, ...explain(scores[index], applies, signals, weights) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ location, score, signals }, rank) => ({
+      ...location,
+      ranking: { rank: rank + 1, score, signals }
+    }));
+}
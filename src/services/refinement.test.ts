@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { applyDelta, looksLikeRefinement } from './refinement';
+import type { ParsedQuery } from './parsedQuery';
+
+const previous: ParsedQuery = {
+  searchTerm: 'restaurants',
+  location: { area: 'Pune' },
+  osmTags: [{ key: 'amenity', value: 'restaurant' }, { key: 'cuisine', value: 'italian' }],
+  context: { type: 'restaurant', filters: { cuisine: ['italian'], openNow: true } }
+};
+
+describe('applyDelta', () => {
+  it('appends cuisines and amenities instead of replacing them', () => {
+    const next = applyDelta(previous, { filters: { cuisine: ['chinese'], amenities: ['wifi'] } });
+    expect(next.context?.filters).toEqual({ cuisine: ['italian', 'chinese'], amenities: ['wifi'], openNow: true });
+  });
+
+  it('removes tags, cuisines and whole filters', () => {
+    const next = applyDelta(previous, {
+      remove: { tags: [{ key: 'cuisine', value: 'italian' }], cuisine: ['italian'], filters: ['openNow'] }
+    });
+    expect(next.osmTags).toEqual([{ key: 'amenity', value: 'restaurant' }]);
+    expect(next.context).toEqual({ type: 'restaurant' });
+  });
+
+  it('replaces the location and keeps everything else', () => {
+    const next = applyDelta(previous, { location: { area: 'Mumbai' } });
+    expect(next).toEqual({ ...previous, location: { area: 'Mumbai' } });
+  });
+
+  it('leaves the previous query untouched', () => {
+    const copy = structuredClone(previous);
+    applyDelta(previous, { remove: { filters: ['openNow'] } });
+    expect(previous).toEqual(copy);
+  });
+});
+
+describe('looksLikeRefinement', () => {
+  it('tells follow-ups from new searches', () => {
+    expect(looksLikeRefinement('only vegetarian')).toBe(true);
+    expect(looksLikeRefinement('what about Mumbai')).toBe(true);
+    expect(looksLikeRefinement('hospitals in Delhi')).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { ParsedQuerySchema, stripNulls } from './parsedQuery';
+import type { OsmTag, ParsedQuery } from './parsedQuery';
+
+const FiltersSchema = ParsedQuerySchema.shape.context.unwrap().shape.filters.unwrap();
+
+const FILTER_NAMES = ['cuisine', 'priceRange', 'openNow', 'rating', 'amenities'] as const;
+
+// A follow-up such as "only the ones with wifi" expressed as changes to the previous query
+export const QueryDeltaSchema = z.object({
+  searchTerm: z.string().optional(),
+  type: ParsedQuerySchema.shape.context.unwrap().shape.type,
+  // Replaces the previous location outright ("what about Kolkata instead")
+  location: ParsedQuerySchema.shape.location,
+  addTags: ParsedQuerySchema.shape.osmTags,
+  addAttributes: ParsedQuerySchema.shape.attributes,
+  // Merged into the previous filters; cuisine and amenities are appended
+  filters: FiltersSchema.optional(),
+  remove: z.object({
+    tags: ParsedQuerySchema.shape.osmTags,
+    attributes: z.string().array().optional(),
+    filters: z.enum(FILTER_NAMES).array().optional(),
+    cuisine: z.string().array().optional(),
+    amenities: z.string().array().optional()
+  }).optional()
+});
+
+export type QueryDelta = z.infer<typeof QueryDeltaSchema>;
+
+export function toQueryDelta(raw: unknown): QueryDelta {
+  const validation = QueryDeltaSchema.safeParse(stripNulls(raw));
+  if (!validation.success) {
+    console.warn('Validation errors:', validation.error.format());
+    return {};
+  }
+  return validation.data;
+}
+
+function sameTag(a: OsmTag, b: OsmTag): boolean {
+  return a.key === b.key && (a.value === b.value || b.value === '*');
+}
+
+function without(values: string[] | undefined, removed: string[] | undefined): string[] | undefined {
+  if (!values) return undefined;
+  const lower = (removed ?? []).map(value => value.toLowerCase());
+  const kept = values.filter(value => !lower.includes(value.toLowerCase()));
+  return kept.length ? kept : undefined;
+}
+
+function union(values: string[] | undefined, added: string[] | undefined): string[] | undefined {
+  const merged = [...(values ?? [])];
+  added?.forEach(value => {
+    if (!merged.some(existing => existing.toLowerCase() === value.toLowerCase())) merged.push(value);
+  });
+  return merged.length ? merged : undefined;
+}
+
+// Empty arrays and objects are dropped so the result stays a minimal ParsedQuery
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) =>
+      v !== undefined && !(Array.isArray(v) && !v.length) && !(v && typeof v === 'object' && !Array.isArray(v) && !Object.keys(v).length)
+    )
+  ) as T;
+}
+
+export function applyDelta(previous: ParsedQuery, delta: QueryDelta): ParsedQuery {
+  const { remove = {} } = delta;
+  const previousFilters = previous.context?.filters ?? {};
+
+  const osmTags = [
+    ...(previous.osmTags ?? []).filter(tag => !remove.tags?.some(removed => sameTag(tag, removed))),
+    ...(delta.addTags ?? [])
+  ];
+  const attributes = [
+    ...(previous.attributes ?? []).filter(condition => !remove.attributes?.includes(condition.key)),
+    ...(delta.addAttributes ?? [])
+  ];
+
+  const filters = compact({
+    ...previousFilters,
+    ...delta.filters,
+    cuisine: without(union(previousFilters.cuisine, delta.filters?.cuisine), remove.cuisine),
+    amenities: without(union(previousFilters.amenities, delta.filters?.amenities), remove.amenities)
+  });
+  remove.filters?.forEach(name => delete filters[name]);
+
+  return compact({
+    searchTerm: delta.searchTerm ?? previous.searchTerm,
+    location: delta.location ?? previous.location,
+    osmTags,
+    attributes,
+    context: compact({ type: delta.type ?? previous.context?.type, filters: compact(filters) })
+  });
+}
+
+// Whether free text reads as a follow-up to the current search rather than a new one
+export function looksLikeRefinement(text: string): boolean {
+  return /^(only|just|but|and|also|with|without|no|not|within|except|exclude|include|cheaper|pricier|closer|nearer|further|farther|more|less|what about|how about|instead|now|same|make it|open now)\b/i.test(text.trim())
+    || /\binstead\b/i.test(text);
+}
+
+// Plain-text query used by name-search fallbacks once a session has drifted from its first wording
+export function queryText(parsedQuery: ParsedQuery): string {
+  const area = parsedQuery.location?.area;
+  return area ? `${parsedQuery.searchTerm} in ${area}` : parsedQuery.searchTerm;
+}
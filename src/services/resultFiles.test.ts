@@ -0,0 +1,68 @@
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { exportResults, importResults } from './resultFiles';
+import { parseCsvLayer } from './layers';
+import type { ResultFormat, ResultSet } from './resultFiles';
+
+const EXTENSIONS: Record<ResultFormat, string> = { geojson: 'geojson', kml: 'kml', gpx: 'gpx', csv: 'csv' };
+
+const resultSet: ResultSet = {
+  metadata: { query: 'cafes in Pune', exportedAt: '2026-01-01T00:00:00.000Z' },
+  locations: [
+    {
+      lat: 18.5204,
+      lon: 73.8567,
+      display_name: 'Cafe "Good Luck", FC Road, Pune',
+      osm_type: 'node',
+      osm_id: 123,
+      importance: 0.4,
+      tags: {
+        amenity: 'cafe',
+        name: 'Cafe "Good Luck"',
+        note: 'line1\nline2, with a comma',
+        description: 'Irani cafe <since 1935> & bakery\r\nTabs\there'
+      }
+    },
+    { lat: -33.8688, lon: 151.2093, display_name: 'Plain place', tags: { shop: 'bakery' } }
+  ]
+};
+
+// Node has File but no DOMParser, which the KML and GPX readers need
+beforeAll(() => {
+  vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+});
+
+async function roundTrip(format: ResultFormat): Promise<ResultSet> {
+  const text = exportResults(resultSet, format);
+  return importResults(new File([text], `results.${EXTENSIONS[format]}`));
+}
+
+describe('exportResults and importResults', () => {
+  it.each<ResultFormat>(['geojson', 'kml', 'gpx', 'csv'])('round-trips places and tags through %s', async format => {
+    const { locations } = await roundTrip(format);
+    expect(locations).toHaveLength(2);
+
+    const [cafe, bakery] = locations;
+    expect(cafe).toMatchObject({ lat: 18.5204, lon: 73.8567, display_name: resultSet.locations[0].display_name, osm_type: 'node', osm_id: 123 });
+    expect(cafe.tags).toMatchObject(resultSet.locations[0].tags!);
+    expect(bakery).toMatchObject({ lat: -33.8688, lon: 151.2093, tags: { shop: 'bakery' } });
+  });
+
+  it.each<ResultFormat>(['geojson', 'kml', 'gpx'])('keeps the query in %s', async format => {
+    expect((await roundTrip(format)).metadata.query).toBe('cafes in Pune');
+  });
+});
+
+describe('parseCsvLayer', () => {
+  it('reads quoted line breaks, commas and quotes inside one record', () => {
+    const layer = parseCsvLayer('name,lat,lon,note\r\n"Shop, ""A""",18.5,73.8,"first\nsecond"\n\nB,18.6,73.9,\n', 'shops');
+    expect(layer.features).toEqual([
+      { lat: 18.5, lon: 73.8, properties: { name: 'Shop, "A"', note: 'first\nsecond' } },
+      { lat: 18.6, lon: 73.9, properties: { name: 'B', note: null } }
+    ]);
+  });
+
+  it('skips rows with blank coordinates', () => {
+    expect(parseCsvLayer('name,lat,lon\nA,,73.8\nB, ,73.9', 'shops').features).toEqual([]);
+  });
+});
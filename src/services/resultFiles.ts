@@ -0,0 +1,272 @@
+import { parseCsvLayer, parseGeoJsonLayer } from './layers';
+import { ParsedQuerySchema } from './parsedQuery';
+import type { LayerFeature } from './layers';
+import type { ParsedQuery } from './parsedQuery';
+import type { Location } from './search';
+
+export type ResultFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export const RESULT_FORMATS: { format: ResultFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'gpx', label: 'GPX waypoints', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+];
+
+export interface ResultSetMetadata {
+  query?: string;
+  parsedQuery?: ParsedQuery;
+  exportedAt?: string;
+}
+
+export interface ResultSet {
+  metadata: ResultSetMetadata;
+  locations: Location[];
+}
+
+// Location fields written next to the OSM tags; anything else read back is treated as a tag
+const FIELDS = ['display_name', 'osm_type', 'osm_id', 'importance', 'layer', 'rank'] as const;
+const XML_NAMESPACE = 'https://github.com/mapdevsaikat/SmartMapSearch';
+
+function fields(location: Location): Record<string, string | number> {
+  return Object.fromEntries(
+    Object.entries({
+      display_name: location.display_name,
+      osm_type: location.osm_type,
+      osm_id: location.osm_id,
+      importance: location.importance,
+      layer: location.layer,
+      rank: location.ranking?.rank
+    }).filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+  );
+}
+
+function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Attribute values would have line breaks and tabs normalised to spaces
+    .replace(/[\t\n\r]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toGeoJson({ metadata, locations }: ResultSet): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    metadata,
+    features: locations.map(location => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [location.lon, location.lat] },
+      properties: { ...location.tags, ...fields(location) }
+    }))
+  }, null, 2);
+}
+
+function toKml({ metadata, locations }: ResultSet): string {
+  const placemarks = locations.map(location => {
+    const data = Object.entries({ ...location.tags, ...fields(location) })
+      .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('\n');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(location.tags?.name ?? location.display_name.split(',')[0])}</name>`,
+      `      <description>${escapeXml(location.display_name)}</description>`,
+      '      <ExtendedData>',
+      data,
+      '      </ExtendedData>',
+      `      <Point><coordinates>${location.lon},${location.lat}</coordinates></Point>`,
+      '    </Placemark>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(metadata.query ?? 'Search results')}</name>`,
+    '    <ExtendedData>',
+    `      <Data name="metadata"><value>${escapeXml(JSON.stringify(metadata))}</value></Data>`,
+    '    </ExtendedData>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>'
+  ].join('\n');
+}
+
+function toGpx({ metadata, locations }: ResultSet): string {
+  const waypoints = locations.map(location => {
+    const tags = Object.entries({ ...location.tags, ...fields(location) })
+      .map(([key, value]) => `      <sms:tag k="${escapeXml(key)}" v="${escapeXml(value)}"/>`)
+      .join('\n');
+    return [
+      `  <wpt lat="${location.lat}" lon="${location.lon}">`,
+      `    <name>${escapeXml(location.tags?.name ?? location.display_name.split(',')[0])}</name>`,
+      `    <desc>${escapeXml(location.display_name)}</desc>`,
+      '    <extensions>',
+      tags,
+      '    </extensions>',
+      '  </wpt>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Smart Map Search" xmlns="http://www.topografix.com/GPX/1/1" xmlns:sms="${XML_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(metadata.query ?? 'Search results')}</name>`,
+    `    <desc>${escapeXml(JSON.stringify(metadata))}</desc>`,
+    ...(metadata.exportedAt ? [`    <time>${metadata.exportedAt}</time>`] : []),
+    '  </metadata>',
+    ...waypoints,
+    '</gpx>'
+  ].join('\n');
+}
+
+// CSV has nowhere to keep the query, so only the rows are written
+function toCsv({ locations }: ResultSet): string {
+  const tagKeys = Array.from(new Set(locations.flatMap(location => Object.keys(location.tags ?? {})))).sort();
+  const columns = ['lat', 'lon', ...FIELDS, ...tagKeys.filter(key => !(FIELDS as readonly string[]).includes(key))];
+  const rows = locations.map(location => {
+    const values: Record<string, string | number> = { lat: location.lat, lon: location.lon, ...location.tags, ...fields(location) };
+    return columns.map(column => escapeCsv(values[column])).join(',');
+  });
+  return [columns.join(','), ...rows].join('\n');
+}
+
+export function exportResults(resultSet: ResultSet, format: ResultFormat): string {
+  switch (format) {
+    case 'geojson': return toGeoJson(resultSet);
+    case 'kml': return toKml(resultSet);
+    case 'gpx': return toGpx(resultSet);
+    case 'csv': return toCsv(resultSet);
+  }
+}
+
+export function downloadResults(resultSet: ResultSet, format: ResultFormat, basename = 'search-results') {
+  const { extension, mimeType } = RESULT_FORMATS.find(entry => entry.format === format)!;
+  const url = URL.createObjectURL(new Blob([exportResults(resultSet, format)], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${basename.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '') || 'search-results'}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toLocation(lat: number, lon: number, properties: Record<string, unknown>, fallbackName: string): Location {
+  const tags = Object.fromEntries(
+    Object.entries(properties)
+      .filter(([key, value]) => !(FIELDS as readonly string[]).includes(key) && value !== null && value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+  const text = (key: string) => (properties[key] == null || properties[key] === '' ? undefined : String(properties[key]));
+  const number = (key: string) => (text(key) === undefined ? undefined : Number(text(key)));
+
+  return {
+    lat,
+    lon,
+    display_name: text('display_name') ?? tags.name ?? fallbackName,
+    ...(text('osm_type') && { osm_type: text('osm_type') }),
+    ...(number('osm_id') !== undefined && { osm_id: number('osm_id') }),
+    ...(number('importance') !== undefined && { importance: number('importance') }),
+    ...(text('layer') && { layer: text('layer') }),
+    ...(Object.keys(tags).length && { tags })
+  };
+}
+
+function fromFeatures(features: LayerFeature[], name: string): Location[] {
+  return features.map((feature, index) => toLocation(feature.lat, feature.lon, feature.properties, `${name} #${index + 1}`));
+}
+
+function parseMetadata(value: unknown): ResultSetMetadata {
+  if (!value || typeof value !== 'object') return {};
+  const { query, parsedQuery, exportedAt } = value as Record<string, unknown>;
+  const parsed = ParsedQuerySchema.safeParse(parsedQuery);
+  return {
+    ...(typeof query === 'string' && { query }),
+    ...(parsed.success && { parsedQuery: parsed.data }),
+    ...(typeof exportedAt === 'string' && { exportedAt })
+  };
+}
+
+function parseXml(text: string, name: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error(`${name} is not valid XML`);
+  return doc;
+}
+
+function parseJsonMetadata(text: string | null | undefined): ResultSetMetadata {
+  try {
+    return text ? parseMetadata(JSON.parse(text)) : {};
+  } catch {
+    return {};
+  }
+}
+
+function fromKml(text: string, name: string): ResultSet {
+  const doc = parseXml(text, name);
+  const documentData = Array.from(doc.querySelectorAll('Document > ExtendedData > Data'))
+    .find(data => data.getAttribute('name') === 'metadata');
+
+  const locations = Array.from(doc.getElementsByTagName('Placemark')).flatMap((placemark, index) => {
+    const [lon, lat] = (placemark.getElementsByTagName('coordinates')[0]?.textContent ?? '').trim().split(',').map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return [];
+    const properties: Record<string, unknown> = Object.fromEntries(
+      Array.from(placemark.getElementsByTagName('Data')).map(data => [
+        data.getAttribute('name') ?? '',
+        data.getElementsByTagName('value')[0]?.textContent ?? ''
+      ])
+    );
+    const placemarkName = placemark.getElementsByTagName('name')[0]?.textContent ?? `${name} #${index + 1}`;
+    return [toLocation(lat, lon, { name: placemarkName, ...properties }, placemarkName)];
+  });
+
+  return { metadata: parseJsonMetadata(documentData?.getElementsByTagName('value')[0]?.textContent), locations };
+}
+
+// A missing attribute would otherwise become Number(null) === 0
+function coordinateAttribute(element: Element, name: string): number {
+  const value = element.getAttribute(name);
+  return value !== null && value.trim() !== '' ? Number(value) : NaN;
+}
+
+function fromGpx(text: string, name: string): ResultSet {
+  const doc = parseXml(text, name);
+  const metadata = doc.getElementsByTagName('metadata')[0];
+
+  const locations = Array.from(doc.getElementsByTagName('wpt')).flatMap((waypoint, index) => {
+    const lat = coordinateAttribute(waypoint, 'lat');
+    const lon = coordinateAttribute(waypoint, 'lon');
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return [];
+    const properties: Record<string, unknown> = Object.fromEntries(
+      Array.from(waypoint.getElementsByTagNameNS(XML_NAMESPACE, 'tag')).map(tag => [tag.getAttribute('k') ?? '', tag.getAttribute('v') ?? ''])
+    );
+    const waypointName = waypoint.getElementsByTagName('name')[0]?.textContent ?? `${name} #${index + 1}`;
+    const description = waypoint.getElementsByTagName('desc')[0]?.textContent;
+    return [toLocation(lat, lon, { name: waypointName, display_name: description ?? waypointName, ...properties }, waypointName)];
+  });
+
+  return { metadata: parseJsonMetadata(metadata?.getElementsByTagName('desc')[0]?.textContent), locations };
+}
+
+// Reads a file written by exportResults, or any point file in one of the same formats
+export async function importResults(file: File): Promise<ResultSet> {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  const text = await file.text();
+
+  if (/\.kml$/i.test(file.name)) return fromKml(text, name);
+  if (/\.gpx$/i.test(file.name)) return fromGpx(text, name);
+  if (/\.csv$/i.test(file.name)) {
+    return { metadata: {}, locations: fromFeatures(parseCsvLayer(text, name).features, name) };
+  }
+  if (/\.(geo)?json$/i.test(file.name)) {
+    const data = JSON.parse(text) as { metadata?: unknown };
+    return { metadata: parseMetadata(data.metadata), locations: fromFeatures(parseGeoJsonLayer(text, name).features, name) };
+  }
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
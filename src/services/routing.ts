@@ -0,0 +1,346 @@
+import { API_URL } from './api';
+import type { Coordinates, Ring, TravelMode, TravelTime } from './parsedQuery';
+
+const ROUTING_URL = `${API_URL}/route`;
+const ROUTING_ENGINE = import.meta.env.VITE_ROUTING_ENGINE === 'valhalla' ? 'valhalla' : 'osrm';
+
+export type TravelProfile = TravelMode;
+
+export const TRAVEL_PROFILES: TravelProfile[] = ['walk', 'bike', 'drive'];
+
+const OSRM_PROFILES: Record<TravelProfile, string> = { walk: 'foot', bike: 'bike', drive: 'driving' };
+const VALHALLA_COSTING: Record<TravelProfile, string> = { walk: 'pedestrian', bike: 'bicycle', drive: 'auto' };
+
+// Metres per second: typical speeds estimate a reach, top speeds bound the OSRM sampling grid
+const TYPICAL_SPEEDS: Record<TravelProfile, number> = { walk: 1.4, bike: 4.2, drive: 11 };
+const TOP_SPEEDS: Record<TravelProfile, number> = { walk: 1.8, bike: 7, drive: 25 };
+// 24 bearings x 4 distances plus the origin stays under OSRM's default table size of 100
+const ISOCHRONE_BEARINGS = 24;
+const ISOCHRONE_STEPS = 4;
+// OSRM's default table size; stops for detours are counted twice, once each way
+export const MAX_MATRIX_POINTS = 100;
+export const MAX_DETOUR_STOPS = (MAX_MATRIX_POINTS - 2) / 2;
+
+export interface RouteStep {
+  instruction: string;
+  // Metres and seconds until the next step
+  distance: number;
+  duration: number;
+  location: [number, number];
+}
+
+export interface Route {
+  profile: TravelProfile;
+  distance: number;
+  duration: number;
+  // [lon, lat] pairs from origin to destination
+  geometry: Ring;
+  steps: RouteStep[];
+}
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  maneuver: { type: string; modifier?: string; location: [number, number] };
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: Ring };
+    legs: { steps: OsrmStep[] }[];
+  }[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations: (number | null)[][];
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets: { time: number | null }[][];
+}
+
+interface ValhallaIsochroneResponse {
+  features: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>[];
+}
+
+interface ValhallaResponse {
+  trip: {
+    summary: { length: number; time: number };
+    legs: {
+      shape: string;
+      maneuvers: { instruction: string; length: number; time: number; begin_shape_index: number }[];
+    }[];
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// OSRM only returns maneuver types, so the sentence is assembled here
+function osrmInstruction({ maneuver, name }: OsrmStep): string {
+  const road = name ? ` onto ${name}` : '';
+  switch (maneuver.type) {
+    case 'depart':
+      return `Head ${maneuver.modifier ?? 'out'}${name ? ` on ${name}` : ''}`;
+    case 'arrive':
+      return 'Arrive at your destination';
+    case 'roundabout':
+    case 'rotary':
+      return `Take the roundabout${road}`;
+    case 'continue':
+    case 'new name':
+      return `Continue${maneuver.modifier && maneuver.modifier !== 'straight' ? ` ${maneuver.modifier}` : ''}${road}`;
+    default:
+      return capitalize(`${maneuver.type}${maneuver.modifier ? ` ${maneuver.modifier}` : ''}${road}`);
+  }
+}
+
+// Decodes Google's encoded polyline format; Valhalla uses six decimal places
+export function decodePolyline(encoded: string, precision = 6): Ring {
+  const factor = Math.pow(10, precision);
+  const points: Ring = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lon += next();
+    points.push([lon / factor, lat / factor]);
+  }
+  return points;
+}
+
+async function routeWithOsrm(waypoints: Coordinates[], profile: TravelProfile): Promise<Route> {
+  const path = waypoints.map(({ latitude, longitude }) => `${longitude},${latitude}`).join(';');
+  const response = await fetch(
+    `${ROUTING_URL}/route/v1/${OSRM_PROFILES[profile]}/${path}?overview=full&geometries=geojson&steps=true`
+  );
+  if (!response.ok) throw new Error(`Routing failed: ${response.status}`);
+
+  const data: OsrmResponse = await response.json();
+  const [route] = data.routes ?? [];
+  if (data.code !== 'Ok' || !route) throw new Error(data.message ?? `Routing failed: ${data.code}`);
+
+  return {
+    profile,
+    distance: route.distance,
+    duration: route.duration,
+    geometry: route.geometry.coordinates,
+    steps: route.legs.flatMap(leg => leg.steps).map(step => ({
+      instruction: osrmInstruction(step),
+      distance: step.distance,
+      duration: step.duration,
+      location: step.maneuver.location
+    }))
+  };
+}
+
+async function routeWithValhalla(waypoints: Coordinates[], profile: TravelProfile): Promise<Route> {
+  const response = await fetch(`${ROUTING_URL}/route`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      locations: waypoints.map(({ latitude, longitude }) => ({ lat: latitude, lon: longitude })),
+      costing: VALHALLA_COSTING[profile],
+      directions_options: { units: 'kilometers' }
+    })
+  });
+  if (!response.ok) throw new Error(`Routing failed: ${response.status}`);
+
+  const { trip }: ValhallaResponse = await response.json();
+  const legs = trip.legs.map(leg => ({ leg, shape: decodePolyline(leg.shape) }));
+
+  return {
+    profile,
+    distance: trip.summary.length * 1000,
+    duration: trip.summary.time,
+    geometry: legs.flatMap(({ shape }) => shape),
+    steps: legs.flatMap(({ leg, shape }) => leg.maneuvers.map(maneuver => ({
+      instruction: maneuver.instruction,
+      distance: maneuver.length * 1000,
+      duration: maneuver.time,
+      location: shape[maneuver.begin_shape_index]
+    })))
+  };
+}
+
+export async function getRoute(waypoints: Coordinates[], profile: TravelProfile): Promise<Route> {
+  if (waypoints.length < 2) throw new Error('A route needs at least two waypoints');
+  return ROUTING_ENGINE === 'valhalla' ? routeWithValhalla(waypoints, profile) : routeWithOsrm(waypoints, profile);
+}
+
+function offset(center: Coordinates, meters: number, bearing: number): Coordinates {
+  return {
+    latitude: center.latitude + (meters * Math.cos(bearing)) / 111320,
+    longitude: center.longitude + (meters * Math.sin(bearing)) / (111320 * Math.cos(center.latitude * Math.PI / 180))
+  };
+}
+
+// OSRM has no isochrone service, so sample travel times on a polar grid and keep the farthest reachable point per bearing
+async function isochroneWithOsrm(center: Coordinates, { minutes, mode }: TravelTime): Promise<Ring> {
+  const seconds = minutes * 60;
+  const reach = seconds * TOP_SPEEDS[mode];
+  const bearings = Array.from({ length: ISOCHRONE_BEARINGS }, (_, i) => (i / ISOCHRONE_BEARINGS) * 2 * Math.PI);
+  const distances = Array.from({ length: ISOCHRONE_STEPS }, (_, i) => (reach * (i + 1)) / ISOCHRONE_STEPS);
+  const samples = bearings.flatMap(bearing => distances.map(distance => offset(center, distance, bearing)));
+
+  const path = [center, ...samples].map(({ latitude, longitude }) => `${longitude},${latitude}`).join(';');
+  const response = await fetch(`${ROUTING_URL}/table/v1/${OSRM_PROFILES[mode]}/${path}?sources=0`);
+  if (!response.ok) throw new Error(`Isochrone failed: ${response.status}`);
+
+  const data: OsrmTableResponse = await response.json();
+  if (data.code !== 'Ok') throw new Error(data.message ?? `Isochrone failed: ${data.code}`);
+  const [durations] = data.durations;
+
+  const ring = bearings.map((bearing, b) => {
+    const reachable = distances.filter((_, d) => {
+      const duration = durations[1 + b * ISOCHRONE_STEPS + d];
+      return duration !== null && duration <= seconds;
+    });
+    // Nothing reachable on this bearing (water, no roads): pull the edge in to half a step
+    return offset(center, reachable.length ? Math.max(...reachable) : distances[0] / 2, bearing);
+  });
+  return [...ring, ring[0]].map(({ latitude, longitude }) => [longitude, latitude]);
+}
+
+async function isochroneWithValhalla(center: Coordinates, { minutes, mode }: TravelTime): Promise<Ring> {
+  const response = await fetch(`${ROUTING_URL}/isochrone`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      locations: [{ lat: center.latitude, lon: center.longitude }],
+      costing: VALHALLA_COSTING[mode],
+      contours: [{ time: minutes }],
+      polygons: true
+    })
+  });
+  if (!response.ok) throw new Error(`Isochrone failed: ${response.status}`);
+
+  const { features }: ValhallaIsochroneResponse = await response.json();
+  const geometry = features[0]?.geometry;
+  if (!geometry) throw new Error('Isochrone failed: no contour returned');
+  // Only the outer ring of the first polygon is kept
+  const outer = geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates[0][0];
+  return outer.map(([lon, lat]) => [lon, lat]);
+}
+
+// Area reachable from `center` within the travel time, as a closed ring of [lon, lat] pairs
+export async function getIsochrone(center: Coordinates, travelTime: TravelTime): Promise<Ring> {
+  return ROUTING_ENGINE === 'valhalla' ? isochroneWithValhalla(center, travelTime) : isochroneWithOsrm(center, travelTime);
+}
+
+async function matrixWithOsrm(sources: Coordinates[], destinations: Coordinates[], profile: TravelProfile) {
+  const path = [...sources, ...destinations].map(({ latitude, longitude }) => `${longitude},${latitude}`).join(';');
+  const sourceIndexes = sources.map((_, i) => i).join(';');
+  const destinationIndexes = destinations.map((_, i) => sources.length + i).join(';');
+  const response = await fetch(
+    `${ROUTING_URL}/table/v1/${OSRM_PROFILES[profile]}/${path}?sources=${sourceIndexes}&destinations=${destinationIndexes}`
+  );
+  if (!response.ok) throw new Error(`Travel times failed: ${response.status}`);
+
+  const data: OsrmTableResponse = await response.json();
+  if (data.code !== 'Ok') throw new Error(data.message ?? `Travel times failed: ${data.code}`);
+  return data.durations;
+}
+
+async function matrixWithValhalla(sources: Coordinates[], destinations: Coordinates[], profile: TravelProfile) {
+  const toLocation = ({ latitude, longitude }: Coordinates) => ({ lat: latitude, lon: longitude });
+  const response = await fetch(`${ROUTING_URL}/sources_to_targets`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sources: sources.map(toLocation),
+      targets: destinations.map(toLocation),
+      costing: VALHALLA_COSTING[profile]
+    })
+  });
+  if (!response.ok) throw new Error(`Travel times failed: ${response.status}`);
+
+  const data: ValhallaMatrixResponse = await response.json();
+  return data.sources_to_targets.map(row => row.map(cell => cell.time));
+}
+
+// Seconds from every source to every destination, one row per source; null where no route exists
+export async function getTravelTimes(
+  sources: Coordinates[],
+  destinations: Coordinates[],
+  profile: TravelProfile
+): Promise<(number | null)[][]> {
+  if (sources.length + destinations.length > MAX_MATRIX_POINTS) {
+    throw new Error(`At most ${MAX_MATRIX_POINTS} points per request`);
+  }
+  return ROUTING_ENGINE === 'valhalla'
+    ? matrixWithValhalla(sources, destinations, profile)
+    : matrixWithOsrm(sources, destinations, profile);
+}
+
+// Seconds each stop adds to the trip from origin to destination; null where a stop cannot be reached
+export async function getDetours(
+  origin: Coordinates,
+  destination: Coordinates,
+  stops: Coordinates[],
+  profile: TravelProfile
+): Promise<(number | null)[]> {
+  if (stops.length === 0) return [];
+  // Rows [origin, ...stops] against columns [destination, ...stops]: a stop adds
+  // origin→stop + stop→destination − origin→destination
+  const durations = await getTravelTimes([origin, ...stops], [destination, ...stops], profile);
+  const direct = durations[0][0];
+  return stops.map((_, i) => {
+    const there = durations[0][1 + i];
+    const onward = durations[1 + i][0];
+    if (direct === null || there === null || onward === null) return null;
+    return Math.max(0, there + onward - direct);
+  });
+}
+
+// Straight-line stand-in for a trip of `meters`
+export function travelTimeEstimate(meters: number, profile: TravelProfile): number {
+  return meters / TYPICAL_SPEEDS[profile];
+}
+
+// Straight-line stand-in: there and back from the nearest point of the route
+export function detourEstimate(metersOffRoute: number, profile: TravelProfile): number {
+  return 2 * travelTimeEstimate(metersOffRoute, profile);
+}
+
+// Straight-line stand-in for when no routing engine answers
+export function travelTimeRadius({ minutes, mode }: TravelTime): number {
+  return minutes * 60 * TYPICAL_SPEEDS[mode];
+}
+
+export function formatRouteDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${Math.max(minutes, 1)} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export function externalDirectionsUrl(destination: Coordinates, profile: TravelProfile): string {
+  const mode = { walk: 'walking', bike: 'bicycling', drive: 'driving' }[profile];
+  return `https://www.google.com/maps/dir/?api=1&destination=${destination.latitude},${destination.longitude}&travelmode=${mode}`;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fallbackParse, parseWithRules } from './ruleParser';
+
+describe('parseWithRules', () => {
+  it('is confident about simple category queries', () => {
+    const { parsedQuery, confidence } = parseWithRules('hospital in Delhi');
+    expect(confidence).toBeGreaterThanOrEqual(0.9);
+    expect(parsedQuery.osmTags).toEqual([{ key: 'amenity', value: 'hospital' }]);
+    expect(parsedQuery.location?.area).toBe('delhi');
+  });
+
+  it('is unsure about words it does not know', () => {
+    expect(parseWithRules('best biryani for a date night').confidence).toBeLessThan(0.9);
+  });
+
+  it('does not take a category from the area name', () => {
+    const { parsedQuery, confidence } = parseWithRules('something near Koregaon Park');
+    expect(parsedQuery.osmTags).toBeUndefined();
+    expect(parsedQuery.context?.type).toBeUndefined();
+    expect(parsedQuery.location?.area).toBe('koregaon park');
+    expect(confidence).toBeLessThan(0.5);
+  });
+
+  it('keeps the category asked for when the area also names one', () => {
+    const { parsedQuery } = parseWithRules('cafe near Koregaon Park');
+    expect(parsedQuery.osmTags).toEqual([{ key: 'amenity', value: 'cafe' }]);
+  });
+
+  it('ignores the places a route runs between', () => {
+    const { confidence } = parseWithRules('petrol pumps on the way to Agra');
+    expect(confidence).toBeGreaterThanOrEqual(0.9);
+  });
+});
+
+describe('fallbackParse', () => {
+  it('keeps the bare query when the rules found no tags', () => {
+    const userLocation = { latitude: 18.52, longitude: 73.86 };
+    expect(fallbackParse('zzz qqq', userLocation)).toEqual({ searchTerm: 'zzz qqq', location: { coordinates: userLocation } });
+  });
+
+  it('does not search for a category taken from the area name', () => {
+    expect(fallbackParse('something near Koregaon Park').osmTags).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { AMENITIES, CATEGORY_KEYWORDS, CUISINES, matchMeeting, matchRoute, mockParse } from './mock';
+import { fallbackQuery, toParsedQuery } from './parsedQuery';
+import { findConcepts } from './tagVocabulary';
+import { DENSITY_WORDS } from './density';
+import { tokenize } from './text';
+import type { Coordinates, OsmTag, ParsedQuery } from './parsedQuery';
+
+export interface RuleParse {
+  parsedQuery: ParsedQuery;
+  // 0 to 1: how much of the query the rules understood
+  confidence: number;
+}
+
+// Words that carry no meaning of their own in a place search
+const FILLER_WORDS = new Set([
+  'find', 'show', 'me', 'get', 'search', 'look', 'looking', 'for', 'i', 'want', 'need', 'please',
+  'the', 'a', 'an', 'some', 'any', 'all', 'and', 'or', 'of', 'to', 'with', 'is', 'are', 'there',
+  'where', 'can', 'place', 'places', 'spot', 'spots', 'nearest', 'closest'
+]);
+
+const PHRASES = [
+  /\bopen now\b/g,
+  /\b(near me|nearby|around me|close by)\b/g,
+  /\bwithin\s+(an?\s+)?\d+(\.\d+)?\s*(km|kilometers?|mi|miles?)\b/g,
+  /\b(within\s+)?(an?\s+)?\d+[\s-]*min(ute)?s?('s)?(\s+(walk|walking|bike|cycle|cycling|ride|drive|driving))?\b/g,
+  /\b[a-z_]+\s+(over|above|more than|greater than|at least|under|below|less than|at most)\s+\d+(\.\d+)?\b/g,
+  // Asks for the density view rather than changing what is searched
+  new RegExp(DENSITY_WORDS.source, 'g')
+];
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isCategoryTag(tag: OsmTag): boolean {
+  return CATEGORY_KEYWORDS.some(({ tag: category }) => category.key === tag.key && category.value === tag.value);
+}
+
+function meaningfulWords(text: string): string[] {
+  return tokenize(text).filter(word => !FILLER_WORDS.has(word));
+}
+
+// Share of the words left once the area is taken out that a recognised pattern or vocabulary term explains
+function coverage(subject: string): number {
+  const total = meaningfulWords(subject);
+  if (total.length === 0) return 0;
+
+  const patterns = [
+    ...CATEGORY_KEYWORDS.map(({ pattern }) => new RegExp(pattern.source, 'g')),
+    ...CUISINES.map(cuisine => new RegExp(`\\b${cuisine}\\b`, 'g')),
+    ...Object.values(AMENITIES).map(pattern => new RegExp(pattern.source, 'g')),
+    ...PHRASES
+  ];
+  const rest = patterns.reduce((remaining, pattern) => remaining.replace(pattern, ' '), subject);
+  const named = findConcepts(rest).flatMap(({ words }) => words).filter(word => !FILLER_WORDS.has(word));
+  return 1 - Math.max(meaningfulWords(rest).length - named.length, 0) / total.length;
+}
+
+// Deterministic first pass: "hospital in Delhi" or "ATM within 2 km" need no LLM
+export function parseWithRules(query: string, userLocation?: Coordinates): RuleParse {
+  const text = query.toLowerCase().trim();
+  let parsedQuery = toParsedQuery(mockParse(text), query, userLocation);
+  const area = parsedQuery.location?.area;
+  // Like an area, the places a route runs between or a meeting is fair to say nothing about what is wanted
+  const phrase = (matchMeeting(text) ?? matchRoute(text))?.phrase;
+  const rest = phrase ? text.replace(phrase, ' ') : text;
+  const subject = area ? rest.replace(new RegExp(`\\b(in|at|around|near|from)\\s+${escapeRegex(area)}\\b`), ' ') : rest;
+  const explained = coverage(subject);
+  // A category word inside the area ("near Koregaon Park") says nothing about what is wanted, and
+  // without a category the search term is free text, which the LLM maps to tags far better
+  let hasCategory = CATEGORY_KEYWORDS.some(({ pattern }) => pattern.test(subject));
+
+  // Synonyms, other languages and typos the keyword table does not know: "dawakhana", "resturants"
+  const [match] = hasCategory ? [] : findConcepts(subject);
+  if (match) {
+    hasCategory = true;
+    parsedQuery = {
+      ...parsedQuery,
+      searchTerm: match.words.join(' '),
+      // Any category the keyword table found came from the area
+      osmTags: [...match.concept.tags, ...(parsedQuery.osmTags ?? []).filter(tag => !isCategoryTag(tag))],
+      context: { ...parsedQuery.context, type: match.concept.category }
+    };
+  } else if (!hasCategory) {
+    // Drop the category the keyword table took from the area, e.g. leisure=park from "Koregaon Park"
+    const osmTags = parsedQuery.osmTags?.filter(tag => !isCategoryTag(tag));
+    parsedQuery = {
+      ...parsedQuery,
+      searchTerm: meaningfulWords(subject).join(' ') || parsedQuery.searchTerm,
+      osmTags: osmTags?.length ? osmTags : undefined,
+      context: { ...parsedQuery.context, type: undefined }
+    };
+  }
+  const confidence = hasCategory ? 0.5 + 0.5 * explained : 0.3 * explained;
+  return { parsedQuery, confidence: Math.round(confidence * 100) / 100 };
+}
+
+// What to search when no LLM answers: the rules' reading if it found tags, otherwise the bare query
+export function fallbackParse(query: string, userLocation?: Coordinates): ParsedQuery {
+  const { parsedQuery } = parseWithRules(query, userLocation);
+  return parsedQuery.osmTags?.length ? parsedQuery : fallbackQuery(query, userLocation);
+}
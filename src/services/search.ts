@@ -0,0 +1,398 @@
+import { radiusInMeters, toMeters } from './parsedQuery';
+import { searchOverpass, searchOverpassPositions } from './overpass';
+import { searchElasticsearch } from './elasticsearch';
+import { distanceInMeters, distanceToLine, lineBounds, matchesSpatialFilter, simplifyLine, spatialFilterFor } from './spatial';
+import { filterOpenNow } from './openingHours';
+import { searchLayers } from './layers';
+import { rankLocations } from './ranking';
+import {
+  MAX_DETOUR_STOPS,
+  MAX_MATRIX_POINTS,
+  detourEstimate,
+  getDetours,
+  getIsochrone,
+  getRoute,
+  getTravelTimes,
+  travelTimeEstimate,
+  travelTimeRadius
+} from './routing';
+import { nominatim } from './nominatim';
+import type { Anchor, Coordinates, Meeting, ParsedQuery, Ring, TravelMode } from './parsedQuery';
+import type { NominatimParams, NominatimPlace } from './nominatim';
+import type { UserLayer } from './layers';
+import type { BoundingBox, LatLon, SpatialFilter } from './spatial';
+import type { RankingExplanation, RankingOptions } from './ranking';
+
+export type SearchBackend = 'osm' | 'elasticsearch';
+
+// Most places the density view fetches for one viewport
+export const DENSITY_LIMIT = 5000;
+// Metres either side of the road when the query gives no width
+const DEFAULT_CORRIDOR_WIDTH = Number(import.meta.env.VITE_CORRIDOR_WIDTH) || 1000;
+// Overpass takes the line inline, so long routes are simplified until they fit
+const MAX_CORRIDOR_POINTS = 200;
+// The meeting area reaches half way from the midpoint to the farthest anchor, but never less than this
+const MIN_MEETING_RADIUS = 1000;
+// Candidate midpoints per side when the fairest point is found by travel time
+const MEETING_GRID = 5;
+
+let searchBackend: SearchBackend = import.meta.env.VITE_SEARCH_BACKEND === 'elasticsearch' ? 'elasticsearch' : 'osm';
+
+export function setSearchBackend(backend: SearchBackend) {
+  searchBackend = backend;
+}
+
+export interface Location {
+  lat: number;
+  lon: number;
+  display_name: string;
+  osm_type?: string;
+  osm_id?: number;
+  tags?: Record<string, string>;
+  importance?: number;
+  // Name of the user-loaded layer the result came from
+  layer?: string;
+  // Seconds the stop adds to the trip, for searches along a route
+  detour?: number;
+  // Distance in metres or travel time in seconds from each anchor of a meeting search, in anchor order
+  anchorCosts?: { values: number[]; unit: 'meters' | 'seconds' };
+  ranking?: RankingExplanation;
+}
+
+function toLocation(place: NominatimPlace): Location {
+  return {
+    lat: Number(place.lat),
+    lon: Number(place.lon),
+    display_name: place.display_name,
+    osm_type: place.osm_type,
+    osm_id: place.osm_id,
+    importance: place.importance,
+    ...(place.extratags && { tags: place.extratags })
+  };
+}
+
+function buildNominatimQuery(parsedQuery: ParsedQuery): NominatimParams {
+  const searchTerms = [parsedQuery.searchTerm];
+
+  if (parsedQuery.location?.area) {
+    searchTerms.push(parsedQuery.location.area);
+  }
+
+  const params: NominatimParams = { q: searchTerms.join(' '), extratags: 1, limit: 10 };
+
+  // Add geographic context; a route's corridor wins over the user's position it starts from
+  if (parsedQuery.location?.corridor) {
+    const { line, width } = parsedQuery.location.corridor;
+    const [south, west, north, east] = lineBounds(line, width);
+    params.viewbox = `${west},${north},${east},${south}`;
+    params.bounded = 1;
+  } else if (parsedQuery.location?.coordinates) {
+    const { latitude, longitude } = parsedQuery.location.coordinates;
+    const radius = radiusInMeters(parsedQuery);
+    const latDelta = radius / 111320;
+    const lonDelta = radius / (111320 * Math.cos(latitude * Math.PI / 180));
+
+    params.viewbox = `${longitude-lonDelta},${latitude+latDelta},${longitude+lonDelta},${latitude-latDelta}`;
+    params.bounded = 1;
+  } else if (parsedQuery.location?.polygon) {
+    const lons = parsedQuery.location.polygon.map(([lon]) => lon);
+    const lats = parsedQuery.location.polygon.map(([, lat]) => lat);
+    params.viewbox = `${Math.min(...lons)},${Math.max(...lats)},${Math.max(...lons)},${Math.min(...lats)}`;
+    params.bounded = 1;
+  }
+
+  return params;
+}
+
+async function fetchNominatim(params: NominatimParams): Promise<Location[]> {
+  const places = await nominatim.search(params);
+  return places.map(toLocation);
+}
+
+// Resolves a named area to its extent so tag searches can be confined to it
+export async function geocodeArea(area: string): Promise<BoundingBox | undefined> {
+  const [place] = await nominatim.search({ q: area, limit: 1 });
+  if (!place?.boundingbox) return undefined;
+
+  const [south, north, west, east] = place.boundingbox.map(Number);
+  return [south, west, north, east];
+}
+
+// Turns "within a 10 minute walk" into the polygon reachable from the query's origin
+export async function resolveTravelTime(parsedQuery: ParsedQuery): Promise<ParsedQuery> {
+  const location = parsedQuery.location;
+  if (!location?.travelTime || location.polygon) return parsedQuery;
+
+  let origin = location.coordinates;
+  if (!origin && location.area) {
+    const bounds = await geocodeArea(location.area).catch(() => undefined);
+    if (bounds) {
+      const [south, west, north, east] = bounds;
+      origin = { latitude: (south + north) / 2, longitude: (west + east) / 2 };
+    }
+  }
+  if (!origin) return parsedQuery;
+
+  try {
+    const polygon = await getIsochrone(origin, location.travelTime);
+    return { ...parsedQuery, location: { ...location, coordinates: origin, polygon } };
+  } catch (error) {
+    console.warn('Isochrone failed, estimating a radius instead:', error);
+    const radius = { value: travelTimeRadius(location.travelTime) / 1000, unit: 'kilometers' as const };
+    return { ...parsedQuery, location: { ...location, coordinates: origin, radius } };
+  }
+}
+
+async function geocodePlace(place: string): Promise<Coordinates> {
+  const [match] = await nominatim.search({ q: place, limit: 1 });
+  if (!match) throw new Error(`Could not find ${place}`);
+  return { latitude: Number(match.lat), longitude: Number(match.lon) };
+}
+
+function corridorLine(path: Ring, width: number): Ring {
+  let tolerance = width / 10;
+  let line = simplifyLine(path, tolerance);
+  while (line.length > MAX_CORRIDOR_POINTS) {
+    tolerance *= 2;
+    line = simplifyLine(path, tolerance);
+  }
+  return line;
+}
+
+// Turns "on the way to Agra" into the road from the query's origin and the corridor searched along it
+export async function resolveRoute(parsedQuery: ParsedQuery): Promise<ParsedQuery> {
+  const location = parsedQuery.location;
+  const route = location?.route;
+  if (!route || location.corridor) return parsedQuery;
+
+  const origin = route.from ? await geocodePlace(route.from) : location.coordinates;
+  if (!origin) throw new Error('A route search needs somewhere to start');
+  const destination = await geocodePlace(route.to);
+  const mode = route.mode ?? 'drive';
+  const width = route.width ? toMeters(route.width) : DEFAULT_CORRIDOR_WIDTH;
+
+  let path: Ring;
+  try {
+    path = (await getRoute([origin, destination], mode)).geometry;
+  } catch (error) {
+    console.warn('Routing failed, searching along a straight line instead:', error);
+    path = [[origin.longitude, origin.latitude], [destination.longitude, destination.latitude]];
+  }
+  return { ...parsedQuery, location: { ...location, corridor: { line: corridorLine(path, width), width } } };
+}
+
+// Detour times from the routing engine, or a straight-line guess for stops it cannot answer for
+async function withDetours(locations: Location[], parsedQuery: ParsedQuery): Promise<Location[]> {
+  const corridor = parsedQuery.location?.corridor;
+  if (!corridor || !locations.length) return locations;
+  const mode = parsedQuery.location?.route?.mode ?? 'drive';
+  const { line } = corridor;
+  const toCoordinates = ([longitude, latitude]: [number, number]) => ({ latitude, longitude });
+
+  const routed = locations.slice(0, MAX_DETOUR_STOPS);
+  const detours = await getDetours(
+    toCoordinates(line[0]),
+    toCoordinates(line[line.length - 1]),
+    routed.map(({ lat, lon }) => ({ latitude: lat, longitude: lon })),
+    mode
+  ).catch(error => {
+    console.warn('Detour times failed, estimating from distance to the route:', error);
+    return [];
+  });
+  return locations.map((location, index) => ({
+    ...location,
+    detour: detours[index] ?? detourEstimate(distanceToLine(location, line), mode)
+  }));
+}
+
+// "me" as an anchor is the user's own position
+export function isUserAnchor({ place }: Anchor): boolean {
+  return /^(me|myself|my location|here)$/i.test(place.trim());
+}
+
+const toLatLon = ({ latitude, longitude }: Coordinates): LatLon => ({ lat: latitude, lon: longitude });
+
+// What the meeting objective makes of everyone's costs
+function meetingCost(costs: (number | null)[], { objective }: Meeting): number {
+  if (costs.some(cost => cost === null)) return Infinity;
+  const values = costs as number[];
+  return objective === 'total' ? values.reduce((sum, cost) => sum + cost, 0) : Math.max(...values);
+}
+
+// The point of a grid over the anchors' extent that the objective scores best by travel time
+async function travelTimeMidpoint(
+  points: Coordinates[],
+  meeting: Meeting,
+  mode: TravelMode,
+  fallback: Coordinates
+): Promise<Coordinates> {
+  const lats = points.map(point => point.latitude);
+  const lons = points.map(point => point.longitude);
+  const [south, north, west, east] = [Math.min(...lats), Math.max(...lats), Math.min(...lons), Math.max(...lons)];
+  const steps = Array.from({ length: MEETING_GRID }, (_, i) => i / (MEETING_GRID - 1));
+  const candidates = [fallback, ...steps.flatMap(y => steps.map(x => ({
+    latitude: south + (north - south) * y,
+    longitude: west + (east - west) * x
+  })))];
+
+  try {
+    const durations = await getTravelTimes(points, candidates, mode);
+    const costs = candidates.map((_, column) => meetingCost(durations.map(row => row[column]), meeting));
+    const best = costs.indexOf(Math.min(...costs));
+    return Number.isFinite(costs[best]) ? candidates[best] : fallback;
+  } catch (error) {
+    console.warn('Travel times failed, meeting at the geographic midpoint instead:', error);
+    return fallback;
+  }
+}
+
+// Turns "halfway between Andheri and Bandra" into the anchors' positions and a fair area to search between them
+export async function resolveMeeting(parsedQuery: ParsedQuery): Promise<ParsedQuery> {
+  const location = parsedQuery.location;
+  const meeting = location?.meeting;
+  if (!meeting || meeting.anchors.every(anchor => anchor.coordinates)) return parsedQuery;
+
+  const points: Coordinates[] = [];
+  // One at a time: Nominatim allows a request per second
+  for (const anchor of meeting.anchors) {
+    const own = isUserAnchor(anchor) ? location.coordinates : undefined;
+    points.push(anchor.coordinates ?? own ?? await geocodePlace(anchor.place));
+  }
+  const anchors = meeting.anchors.map((anchor, index) => ({ ...anchor, coordinates: points[index] }));
+
+  const centroid = {
+    latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+    longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length
+  };
+  const midpoint = meeting.mode ? await travelTimeMidpoint(points, meeting, meeting.mode, centroid) : centroid;
+  const farthest = Math.max(...points.map(point => distanceInMeters(toLatLon(midpoint), toLatLon(point))));
+  const radius = location.radius ?? { value: Math.max(farthest / 2, MIN_MEETING_RADIUS) / 1000, unit: 'kilometers' as const };
+
+  const resolved = { ...location, meeting: { ...meeting, anchors }, coordinates: midpoint, radius };
+  delete resolved.area;
+  return { ...parsedQuery, location: resolved };
+}
+
+// Travel times from every anchor when the meeting has a mode, straight-line distances otherwise
+async function withAnchorCosts(locations: Location[], parsedQuery: ParsedQuery): Promise<Location[]> {
+  const meeting = parsedQuery.location?.meeting;
+  const points = meeting?.anchors.flatMap(anchor => anchor.coordinates ?? []) ?? [];
+  if (!meeting || !locations.length || points.length < meeting.anchors.length) return locations;
+  const distances = (location: Location) => points.map(point => distanceInMeters(toLatLon(point), location));
+
+  const { mode } = meeting;
+  if (!mode) {
+    return locations.map(location => ({ ...location, anchorCosts: { values: distances(location), unit: 'meters' } }));
+  }
+  const routed = locations.slice(0, MAX_MATRIX_POINTS - points.length);
+  const durations = await getTravelTimes(points, routed.map(({ lat, lon }) => ({ latitude: lat, longitude: lon })), mode)
+    .catch(error => {
+      console.warn('Travel times failed, estimating from straight-line distances:', error);
+      return [];
+    });
+  return locations.map((location, column) => {
+    const values = distances(location).map((meters, row) => durations[row]?.[column] ?? travelTimeEstimate(meters, mode));
+    return { ...location, anchorCosts: { values, unit: 'seconds' } };
+  });
+}
+
+async function resolveSpatialFilter(parsedQuery: ParsedQuery): Promise<SpatialFilter | null> {
+  const area = parsedQuery.location?.area;
+  try {
+    const named = !parsedQuery.location?.coordinates && !parsedQuery.location?.corridor && area;
+    const areaBounds = named ? await geocodeArea(area) : undefined;
+    return spatialFilterFor(parsedQuery, areaBounds);
+  } catch (error) {
+    console.warn('Resolving search area failed, searching unbounded:', error);
+    return spatialFilterFor(parsedQuery);
+  }
+}
+
+async function searchByName(query: string, parsedQuery: ParsedQuery): Promise<Location[]> {
+  const results = await fetchNominatim(buildNominatimQuery(parsedQuery));
+
+  // Fallback for empty results
+  if (results.length === 0) {
+    return fetchNominatim({ q: query, limit: 10 });
+  }
+  return results;
+}
+
+async function findLocations(query: string, parsedQuery: ParsedQuery, filter: SpatialFilter | null): Promise<Location[]> {
+  if (searchBackend === 'elasticsearch') {
+    return searchElasticsearch(parsedQuery, filter);
+  }
+
+  try {
+    // Tagged queries with a spatial context go to Overpass; names and addresses stay on Nominatim
+    if (parsedQuery.osmTags?.length && filter) {
+      try {
+        const results = await searchOverpass(parsedQuery.osmTags, filter);
+        if (results.length > 0) return results;
+      } catch (error) {
+        console.warn('Overpass search failed, falling back to Nominatim:', error);
+      }
+    }
+
+    return await searchByName(query, parsedQuery);
+
+  } catch (error) {
+    console.error('Search error:', error);
+    // Final fallback with simplified query
+    return fetchNominatim({ q: query, limit: 3 });
+  }
+}
+
+// Every place in `bbox` that matches the query's tags, up to DENSITY_LIMIT, for counting rather than listing
+export async function findAllInBounds(parsedQuery: ParsedQuery, bbox: BoundingBox): Promise<Location[]> {
+  if (searchBackend === 'elasticsearch') {
+    return searchElasticsearch(parsedQuery, { type: 'bbox', bbox }, DENSITY_LIMIT);
+  }
+  const tags = parsedQuery.osmTags ?? [];
+  if (!tags.length) throw new Error('Density needs a kind of place, such as "cafes" or "coworking spaces"');
+  return searchOverpassPositions(tags, bbox, DENSITY_LIMIT);
+}
+
+function filterCenter(filter: SpatialFilter | null): LatLon | undefined {
+  // Along a route no single point is where the user starts from; detours rank instead
+  if (!filter || filter.type === 'corridor') return undefined;
+  if (filter.type === 'around') {
+    return { lat: filter.center.latitude, lon: filter.center.longitude };
+  }
+  if (filter.type === 'polygon') {
+    const { polygon } = filter;
+    return {
+      lat: polygon.reduce((sum, [, lat]) => sum + lat, 0) / polygon.length,
+      lon: polygon.reduce((sum, [lon]) => sum + lon, 0) / polygon.length
+    };
+  }
+  const [south, west, north, east] = filter.bbox;
+  return { lat: (south + north) / 2, lon: (west + east) / 2 };
+}
+
+export async function searchLocations(
+  query: string,
+  parsedQuery: ParsedQuery,
+  layers: UserLayer[] = [],
+  ranking: Omit<RankingOptions, 'origin'> = {}
+): Promise<Location[]> {
+  const filter = await resolveSpatialFilter(parsedQuery);
+  const layerResults = searchLayers(layers, parsedQuery, filter);
+  // Attribute conditions only make sense against the user's own data
+  const results = parsedQuery.attributes?.length
+    ? layerResults
+    : [...layerResults, ...await findLocations(query, parsedQuery, filter)];
+  // Backends only approximate circles and polygons, so clip precisely here
+  const clipped = filter && filter.type !== 'bbox'
+    ? results.filter(location => matchesSpatialFilter(filter, location))
+    : results;
+  const open = parsedQuery.context?.filters?.openNow ? filterOpenNow(clipped) : clipped;
+  const candidates = await withAnchorCosts(await withDetours(open, parsedQuery), parsedQuery);
+  // Travel-time searches measure distance from where the trip starts, not the middle of the isochrone
+  const coordinates = parsedQuery.location?.travelTime && parsedQuery.location.coordinates;
+  // Meeting searches rank by the cost to every anchor instead of the distance from the midpoint
+  const origin = parsedQuery.location?.meeting
+    ? undefined
+    : coordinates ? { lat: coordinates.latitude, lon: coordinates.longitude } : filterCenter(filter);
+  return rankLocations(candidates, parsedQuery, { ...ranking, origin });
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { ParsedQuerySchema } from './parsedQuery';
+import type { ParsedQuery } from './parsedQuery';
+import type { SearchConstraint } from './spatial';
+
+export interface MapViewport {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+// Everything needed to reopen a search exactly as it was shared
+export interface SearchLink {
+  query: string;
+  // As parsed before any constraint, so reopening the link never calls the LLM
+  parsedQuery: ParsedQuery;
+  constraint: SearchConstraint | null;
+  view: MapViewport | null;
+  // Index into the result list
+  selected: number | null;
+}
+
+const RingSchema = z.array(z.tuple([z.number(), z.number()])).min(3);
+
+const ConstraintSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('circle'),
+    center: z.object({ latitude: z.number(), longitude: z.number() }),
+    radius: z.number().positive()
+  }),
+  z.object({ type: z.literal('polygon'), polygon: RingSchema })
+]);
+
+// The parsed query and constraint travel together in one opaque param
+const LinkStateSchema = z.object({
+  pq: ParsedQuerySchema,
+  c: ConstraintSchema.optional()
+});
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Same zoom/lat/lon order as openstreetmap.org's #map= fragment
+function encodeView({ latitude, longitude, zoom }: MapViewport): string {
+  return `${round(zoom, 2)}/${round(latitude, 5)}/${round(longitude, 5)}`;
+}
+
+function decodeView(value: string | null): MapViewport | null {
+  const [zoom, latitude, longitude] = (value ?? '').split('/').map(Number);
+  if (![zoom, latitude, longitude].every(Number.isFinite)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude, zoom };
+}
+
+// Identifies the search itself regardless of viewport or selection; also the key results are cached under
+export function searchStateKey({ parsedQuery, constraint }: Pick<SearchLink, 'parsedQuery' | 'constraint'>): string {
+  return toBase64Url(JSON.stringify({ pq: parsedQuery, ...(constraint && { c: constraint }) }));
+}
+
+export function encodeSearchLink(link: SearchLink): string {
+  const params = new URLSearchParams({ q: link.query, s: searchStateKey(link) });
+  if (link.view) params.set('map', encodeView(link.view));
+  if (link.selected !== null) params.set('sel', String(link.selected));
+  return `?${params.toString()}`;
+}
+
+// Returns null for URLs without a search or with one that no longer validates
+export function decodeSearchLink(search: string): SearchLink | null {
+  const params = new URLSearchParams(search);
+  const query = params.get('q');
+  const state = params.get('s');
+  if (!query || !state) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(state));
+  } catch {
+    return null;
+  }
+  const parsed = LinkStateSchema.safeParse(raw);
+  if (!parsed.success) return null;
+
+  const selected = Number(params.get('sel') ?? NaN);
+  return {
+    query,
+    parsedQuery: parsed.data.pq,
+    constraint: parsed.data.c ?? null,
+    view: decodeView(params.get('map')),
+    selected: Number.isInteger(selected) && selected >= 0 ? selected : null
+  };
+}
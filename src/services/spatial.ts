@@ -0,0 +1,165 @@
+import { radiusInMeters } from './parsedQuery';
+import type { Coordinates, ParsedQuery, Ring } from './parsedQuery';
+
+// [south, west, north, east], the order Overpass expects
+export type BoundingBox = [number, number, number, number];
+
+export type SpatialFilter =
+  | { type: 'around'; center: Coordinates; radius: number }
+  | { type: 'bbox'; bbox: BoundingBox }
+  | { type: 'polygon'; polygon: Ring }
+  // Everything within `radius` metres of a [lon, lat] line
+  | { type: 'corridor'; line: Ring; radius: number };
+
+// A shape drawn on the map, or the viewport, that replaces the parsed location of the next search
+export type SearchConstraint =
+  | { type: 'circle'; center: Coordinates; radius: number }
+  | { type: 'polygon'; polygon: Ring };
+
+export function spatialFilterFor(parsedQuery: ParsedQuery, areaBounds?: BoundingBox): SpatialFilter | null {
+  const corridor = parsedQuery.location?.corridor;
+  if (corridor) {
+    return { type: 'corridor', line: corridor.line, radius: corridor.width };
+  }
+  const polygon = parsedQuery.location?.polygon;
+  if (polygon) {
+    return { type: 'polygon', polygon };
+  }
+  const coordinates = parsedQuery.location?.coordinates;
+  if (coordinates) {
+    return { type: 'around', center: coordinates, radius: radiusInMeters(parsedQuery) };
+  }
+  if (areaBounds) {
+    const [south, west, north, east] = areaBounds;
+    // An explicit radius around a named area searches around its centre instead of its extent
+    if (parsedQuery.location?.radius) {
+      return {
+        type: 'around',
+        center: { latitude: (south + north) / 2, longitude: (west + east) / 2 },
+        radius: radiusInMeters(parsedQuery)
+      };
+    }
+    return { type: 'bbox', bbox: areaBounds };
+  }
+  return null;
+}
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export function distanceInMeters(from: LatLon, to: LatLon): number {
+  const R = 6371000;
+  const dLat = (to.lat - from.lat) * Math.PI / 180;
+  const dLon = (to.lon - from.lon) * Math.PI / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+export function matchesSpatialFilter(filter: SpatialFilter, point: LatLon): boolean {
+  if (filter.type === 'around') {
+    return distanceInMeters({ lat: filter.center.latitude, lon: filter.center.longitude }, point) <= filter.radius;
+  }
+  if (filter.type === 'polygon') {
+    return pointInPolygon(point, filter.polygon);
+  }
+  if (filter.type === 'corridor') {
+    return distanceToLine(point, filter.line) <= filter.radius;
+  }
+  const [south, west, north, east] = filter.bbox;
+  return point.lat >= south && point.lat <= north && point.lon >= west && point.lon <= east;
+}
+
+// Metres east and north of `origin`; flat-earth, fine over the length of a road segment
+function project(origin: LatLon, [lon, lat]: [number, number]): [number, number] {
+  return [(lon - origin.lon) * 111320 * Math.cos(origin.lat * Math.PI / 180), (lat - origin.lat) * 111320];
+}
+
+function distanceToSegment([x, y]: [number, number], [ax, ay]: [number, number], [bx, by]: [number, number]): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const length = dx * dx + dy * dy;
+  const t = length ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / length)) : 0;
+  return Math.hypot(x - ax - t * dx, y - ay - t * dy);
+}
+
+// Shortest distance in metres from a point to a [lon, lat] line
+export function distanceToLine(point: LatLon, line: Ring): number {
+  const projected = line.map(vertex => project(point, vertex));
+  if (projected.length === 1) return Math.hypot(...projected[0]);
+  let nearest = Infinity;
+  for (let i = 1; i < projected.length; i++) {
+    nearest = Math.min(nearest, distanceToSegment([0, 0], projected[i - 1], projected[i]));
+  }
+  return nearest;
+}
+
+// Douglas-Peucker: drops vertices that lie within `tolerance` metres of the simplified line
+export function simplifyLine(line: Ring, tolerance: number): Ring {
+  if (line.length <= 2) return line;
+  const first = line[0];
+  const last = line[line.length - 1];
+  const origin = { lat: first[1], lon: first[0] };
+  const [a, b] = [project(origin, first), project(origin, last)];
+
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < line.length - 1; i++) {
+    const distance = distanceToSegment(project(origin, line[i]), a, b);
+    if (distance > farthest) {
+      farthest = distance;
+      index = i;
+    }
+  }
+  if (farthest <= tolerance) return [first, last];
+  return [...simplifyLine(line.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyLine(line.slice(index), tolerance)];
+}
+
+// Box around a [lon, lat] line, grown by `margin` metres on every side
+export function lineBounds(line: Ring, margin = 0): BoundingBox {
+  const lons = line.map(([lon]) => lon);
+  const lats = line.map(([, lat]) => lat);
+  const latMargin = margin / 111320;
+  const widest = Math.max(...lats.map(Math.abs));
+  const lonMargin = margin / (111320 * Math.cos(Math.min(widest, 89) * Math.PI / 180));
+  return [Math.min(...lats) - latMargin, Math.min(...lons) - lonMargin, Math.max(...lats) + latMargin, Math.max(...lons) + lonMargin];
+}
+
+// Ray casting; the ring may be open or closed
+export function pointInPolygon(point: LatLon, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point.lat) !== (yj > point.lat) && point.lon < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Approximates a circle of `radius` metres as a closed ring
+export function circleToRing(center: Coordinates, radius: number, steps = 64): Ring {
+  const latRadius = radius / 111320;
+  const lonRadius = radius / (111320 * Math.cos(center.latitude * Math.PI / 180));
+  const ring: Ring = [];
+  for (let step = 0; step <= steps; step++) {
+    const angle = (step / steps) * 2 * Math.PI;
+    ring.push([center.longitude + lonRadius * Math.cos(angle), center.latitude + latRadius * Math.sin(angle)]);
+  }
+  return ring;
+}
+
+export function constraintToRing(constraint: SearchConstraint): Ring {
+  return constraint.type === 'circle' ? circleToRing(constraint.center, constraint.radius) : constraint.polygon;
+}
+
+export function applyConstraint(parsedQuery: ParsedQuery, constraint: SearchConstraint): ParsedQuery {
+  const location = constraint.type === 'circle'
+    ? { coordinates: constraint.center, radius: { value: constraint.radius / 1000, unit: 'kilometers' as const } }
+    : { polygon: constraint.polygon };
+  return { ...parsedQuery, location };
+}
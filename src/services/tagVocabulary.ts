@@ -0,0 +1,130 @@
+import vocabulary from '../data/osmTagVocabulary.json';
+import { tokenize, wordSimilarity } from './text';
+import type { Category } from './categories';
+import type { OsmTag, ParsedQuery } from './parsedQuery';
+
+// A kind of place and every way people name it; all its tags must match, as in an Overpass query
+export interface TagConcept {
+  id: string;
+  category: Category;
+  tags: OsmTag[];
+  terms: string[];
+}
+
+export interface ConceptMatch {
+  concept: TagConcept;
+  // The query's own words that named the concept
+  words: string[];
+}
+
+// Typos are only forgiven in longer words: "bench" is not a misspelt "beach"
+const FUZZY_MIN_LENGTH = 6;
+const FUZZY_SIMILARITY = 0.8;
+
+const CONCEPTS = vocabulary.concepts as TagConcept[];
+const KNOWN_VALUES = new Map(Object.entries(vocabulary.values).map(([key, values]) => [key, new Set(values)]));
+
+// Lowercase, accents dropped and plurals reduced, so "Pharmacies" and "pharmacy" meet
+function normalizeWord(word: string): string {
+  const plain = word.normalize('NFD').replace(/\p{M}/gu, '');
+  if (plain.length > 4 && plain.endsWith('ies')) return `${plain.slice(0, -3)}y`;
+  if (/(ch|sh|ss|x)es$/.test(plain)) return plain.slice(0, -2);
+  if (plain.length > 3 && plain.endsWith('s') && !plain.endsWith('ss')) return plain.slice(0, -1);
+  return plain;
+}
+
+function normalizeText(text: string): string[] {
+  return tokenize(text).map(normalizeWord);
+}
+
+const TERMS = new Map<string, TagConcept>();
+CONCEPTS.forEach(concept => {
+  concept.terms.forEach(term => {
+    const key = normalizeText(term).join(' ');
+    if (!TERMS.has(key)) TERMS.set(key, concept);
+  });
+});
+const LONGEST_TERM = Math.max(...Array.from(TERMS.keys(), term => term.split(' ').length));
+
+function lookup(phrase: string): TagConcept | null {
+  const exact = TERMS.get(phrase);
+  if (exact || phrase.length < FUZZY_MIN_LENGTH) return exact ?? null;
+
+  let best: TagConcept | null = null;
+  let bestSimilarity = FUZZY_SIMILARITY;
+  for (const [term, concept] of TERMS) {
+    const similarity = wordSimilarity(phrase, term);
+    if (similarity >= bestSimilarity) {
+      best = concept;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
+// Every concept named in the text, longest phrases first: "car park" wins over "park"
+export function findConcepts(text: string): ConceptMatch[] {
+  const words = tokenize(text);
+  const normalized = words.map(normalizeWord);
+  const matches: ConceptMatch[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let length = Math.min(LONGEST_TERM, words.length - start);
+    let concept: TagConcept | null = null;
+    while (length > 0 && !(concept = lookup(normalized.slice(start, start + length).join(' ')))) length--;
+
+    if (concept) {
+      matches.push({ concept, words: words.slice(start, start + length) });
+      start += length;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+export function isKnownTag({ key, value }: OsmTag): boolean {
+  return value === '*' || (KNOWN_VALUES.get(key)?.has(value) ?? false);
+}
+
+function correctTag(tag: OsmTag): OsmTag[] {
+  const values = KNOWN_VALUES.get(tag.key);
+  // Nothing to check keys like cuisine or diet against
+  if (!values || isKnownTag(tag)) return [tag];
+
+  const value = normalizeWord(tag.value.toLowerCase());
+  const close = Array.from(values).find(known =>
+    known === value || (value.length >= FUZZY_MIN_LENGTH && wordSimilarity(known, value) >= FUZZY_SIMILARITY)
+  );
+  if (close) return [{ key: tag.key, value: close }];
+
+  // A value that names a concept under the wrong tag: amenity=coffee_shop, shop=pharmacy
+  const [match] = findConcepts(tag.value.replace(/_/g, ' '));
+  if (match) return match.concept.tags;
+
+  // Without a taginfo dump the vocabulary only knows its own concepts, so other values may be fine
+  return vocabulary.taginfo ? [] : [tag];
+}
+
+// Offline check of tags an LLM came up with: misspellings and plurals are fixed, invented tags dropped
+export function correctTags(tags: OsmTag[]): OsmTag[] {
+  const corrected = tags.flatMap(correctTag);
+  return corrected.filter((tag, index) =>
+    corrected.findIndex(other => other.key === tag.key && other.value === tag.value) === index
+  );
+}
+
+// Tags from the vocabulary when the LLM gave none that survive correction
+export function withVocabularyTags(parsedQuery: ParsedQuery): ParsedQuery {
+  const osmTags = correctTags(parsedQuery.osmTags ?? []);
+  if (osmTags.length > 0) return { ...parsedQuery, osmTags };
+
+  const [match] = findConcepts(parsedQuery.searchTerm);
+  if (!match) return parsedQuery.osmTags ? { ...parsedQuery, osmTags: undefined } : parsedQuery;
+  return {
+    ...parsedQuery,
+    osmTags: match.concept.tags,
+    context: { ...parsedQuery.context, type: parsedQuery.context?.type ?? match.concept.category }
+  };
+}
@@ -0,0 +1,23 @@
+export function tokenize(value: unknown): string[] {
+  return typeof value === 'string' ? value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean) : [];
+}
+
+export function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+// 1 for identical words, falling towards 0 as the edit distance approaches the longer word's length
+export function wordSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
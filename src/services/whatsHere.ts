@@ -0,0 +1,61 @@
+import { nominatim } from './nominatim';
+import { searchNearby } from './overpass';
+import { addressFromNominatim } from './placeDetails';
+import { CATEGORIES, categoryOf } from './categories';
+import { distanceInMeters } from './spatial';
+import type { Category } from './categories';
+import type { Coordinates } from './parsedQuery';
+import type { Location } from './search';
+
+const NEARBY_RADIUS = 250;
+const PLACES_PER_CATEGORY = 5;
+
+export interface NearbyGroup {
+  category: Category;
+  places: Location[];
+}
+
+export interface PointDescription {
+  point: Coordinates;
+  // Nearest address or named feature; null when the point is in the sea or the lookup failed
+  name: string | null;
+  address: string[];
+  nearby: NearbyGroup[];
+  // Set when only part of the description could be fetched
+  error: string | null;
+}
+
+function groupByCategory(point: Coordinates, places: Location[]): NearbyGroup[] {
+  const origin = { lat: point.latitude, lon: point.longitude };
+  const sorted = [...places].sort((a, b) => distanceInMeters(origin, a) - distanceInMeters(origin, b));
+  return CATEGORIES
+    .map(category => ({
+      category,
+      places: sorted.filter(place => categoryOf(place) === category).slice(0, PLACES_PER_CATEGORY)
+    }))
+    .filter(group => group.places.length > 0);
+}
+
+// Reverse geocodes a point and lists what's around it; either half may fail without the other
+export async function describePoint(point: Coordinates): Promise<PointDescription> {
+  const [reverse, nearby] = await Promise.allSettled([
+    nominatim.reverse(point.latitude, point.longitude, { addressdetails: 1, zoom: 18 }),
+    searchNearby(point, NEARBY_RADIUS)
+  ]);
+  if (reverse.status === 'rejected') console.error('Reverse geocoding error:', reverse.reason);
+  if (nearby.status === 'rejected') console.error('Nearby search error:', nearby.reason);
+
+  const place = reverse.status === 'fulfilled' ? reverse.value : null;
+  const failed = [
+    reverse.status === 'rejected' && 'the address',
+    nearby.status === 'rejected' && 'nearby places'
+  ].filter(Boolean);
+
+  return {
+    point,
+    name: place ? place.display_name.split(',')[0] : null,
+    address: place?.address ? addressFromNominatim(place.address) : [],
+    nearby: nearby.status === 'fulfilled' ? groupByCategory(point, nearby.value) : [],
+    error: failed.length ? `Could not load ${failed.join(' or ')}.` : null
+  };
+}
@@ -3,4 +3,16 @@
 interface Window {
   SpeechRecognition: typeof SpeechRecognition;
   webkitSpeechRecognition: typeof SpeechRecognition;
-}
\ No newline at end of file
+}
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_LLM_PROVIDER?: 'server' | 'mock';
+  readonly VITE_RULE_CONFIDENCE?: string;
+  readonly VITE_SEARCH_BACKEND?: 'osm' | 'elasticsearch';
+  readonly VITE_ELASTICSEARCH_INDEX?: string;
+  readonly VITE_RANKING_WEIGHTS?: string;
+  readonly VITE_PUBLIC_HOLIDAYS?: string;
+  readonly VITE_ROUTING_ENGINE?: 'osrm' | 'valhalla';
+  readonly VITE_CORRIDOR_WIDTH?: string;
+  readonly VITE_AUTOCOMPLETE_ENGINE?: 'photon' | 'nominatim';
+}
@@ -1,9 +1,14 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The API proxy in server/ holds every key; the dev and preview servers forward /api to it
+const apiProxy = { '/api': process.env.API_PROXY_TARGET || 'http://localhost:8787' };
+
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
     include: ['maplibre-gl', 'react-map-gl']
-  }
-});
\ No newline at end of file
+  },
+  server: { proxy: apiProxy },
+  preview: { proxy: apiProxy }
+});